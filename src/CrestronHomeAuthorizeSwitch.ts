@@ -0,0 +1,41 @@
+import { Service, PlatformAccessory } from 'homebridge';
+import { SafetyPolicy } from './safetyPolicy';
+
+import { CrestronHomePlatform } from './platform';
+
+/**
+ * A virtual Switch granting the next disarm or unlock from HomeKit, for the actions whose safety policy asks for it.
+ * It turns itself off after the action, or when the authorization runs out.
+ */
+export class CrestronHomeAuthorizeSwitch {
+  private service: Service;
+  private unsubscribe: () => void;
+
+  constructor(
+    private readonly platform: CrestronHomePlatform,
+    public readonly accessory: PlatformAccessory,
+    private readonly safety: SafetyPolicy,
+  ) {
+
+    accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Crestron Electronics')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Authorize Switch')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, 'Crestron-Authorize');
+
+    this.service = this.accessory.getService(this.platform.Service.Switch)
+      || this.accessory.addService(this.platform.Service.Switch);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, safety.authorizeName);
+
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.safety.isAuthorized())
+      .onSet(value => value ? this.safety.authorize() : this.safety.revoke());
+
+    this.unsubscribe = safety.subscribe(authorized => {
+      this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(authorized);
+    });
+  }
+
+  public dispose() {
+    this.unsubscribe();
+  }
+}
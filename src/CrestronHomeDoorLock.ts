@@ -80,6 +80,7 @@ export class CrestronHomeDoorLock implements CrestronAccessory {
    * Handle requests to get the current value of the "Lock Current State" characteristic
    */
   getLockCurrentState(): CharacteristicValue {
+    this.platform.assertReachable(this.crestronId);
     this.platform.log.debug('Get Lock Current State for:', this.accessory.displayName, this.lockStates.LockCurrentState);
     return this.lockStates.LockCurrentState;
   }
@@ -88,14 +89,23 @@ export class CrestronHomeDoorLock implements CrestronAccessory {
    * Handle requests to get the current value of the "Lock Target State" characteristic
    */
   getLockTargetState(): CharacteristicValue {
+    this.platform.assertReachable(this.crestronId);
     this.platform.log.debug('Get Lock Target State for:', this.accessory.displayName, this.lockStates.LockTargetState);
     return this.lockStates.LockTargetState;
   }
 
   /**
-   * Handle "SET" requests from HomeKit to set the "Lock Target State" characteristic
+   * Handle "SET" requests from HomeKit to set the "Lock Target State" characteristic, unlocking only when the safety
+   * policy allows it
    */
   async setLockTargetState(value: CharacteristicValue) {
+    if (value === this.platform.Characteristic.LockTargetState.UNSECURED) {
+      const denied = this.platform.safety.check('unlock', { id: this.crestronId, name: this.accessory.displayName });
+      if (denied) {
+        this.service.getCharacteristic(this.platform.Characteristic.LockTargetState).updateValue(this.lockStates.LockTargetState);
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INSUFFICIENT_PRIVILEGES);
+      }
+    }
     this.lockStates.LockTargetState = value as number;
 
     // Immediately update current state to show HomeKit we're responding
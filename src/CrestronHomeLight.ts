@@ -1,8 +1,16 @@
-import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { Service, PlatformAccessory, CharacteristicValue, WithUUID, Characteristic } from 'homebridge';
 import { CrestronDevice } from './crestronClient';
+import { FadeTimes, OverrideService } from './deviceOverrides';
+import { CircadianCurve } from './circadian';
 
 import { CrestronHomePlatform, CrestronAccessory } from './platform';
 
+type LightCommand = {
+  on?: boolean;
+  brightness?: number;
+  fromCurve?: boolean;
+};
+
 /**
  * Platform Accessory
  * An instance of this class is created for each accessory your platform registers
@@ -10,57 +18,222 @@ import { CrestronHomePlatform, CrestronAccessory } from './platform';
  */
 export class CrestronHomeLight implements CrestronAccessory{
   private service: Service;
+  private levelCharacteristic: WithUUID<new () => Characteristic>;
+  private dimmable = false;
+
+  // while a fade runs, polled levels are intermediate - the last one is applied once the fade is over
+  private fadeUntil = 0;
+  private fadeTimer?: NodeJS.Timeout;
+  private fadePendingState?: CrestronDevice;
 
   private lightStates = {
     On: false,
     Brightness: 100,
   };
 
+  // HomeKit sets On and Brightness together, both are collected and sent as one command
+  private pendingCommand?: { command: LightCommand; sent: Promise<void> };
+
+  // time-of-day brightness curve of the light, and the level it set last - the light follows the curve until its level is changed
+  private curve?: CircadianCurve;
+  private curveLevel?: number;
+  private unsubscribeCurve?: () => void;
+
   public crestronId = 0;
 
   constructor(
     private readonly platform: CrestronHomePlatform,
     private readonly accessory: PlatformAccessory,
+    private readonly device: CrestronDevice = accessory.context.device,
   ) {
 
-    this.crestronId = accessory.context.device.id;
+    this.crestronId = device.id;
 
     // set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Crestron Electronics')
-      .setCharacteristic(this.platform.Characteristic.Model, 'Default-Model')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, `Crestron-${this.crestronId}`);
+    this.platform.setAccessoryInformation(accessory, device);
+
+    // a light can be shown as another service with a device override, e.g. a Switch as an Outlet or a Fan
+    const supportedServices: OverrideService[] = ['Lightbulb', 'Switch', 'Outlet', 'Fan'];
+    const serviceName = this.platform.deviceOverrides.serviceFor(this.crestronId, supportedServices);
+
+    this.platform.log.debug(`Adding ${serviceName}`, device.name, device);
+    this.service = this.platform.deviceService(
+      accessory,
+      device,
+      this.platform.Service[serviceName],
+      supportedServices.map(name => this.platform.Service[name]),
+    );
 
-    this.platform.log.debug('Adding Lightbulb', this.accessory.displayName, accessory.context.device);
-    this.service = this.accessory.getService(this.platform.Service.Lightbulb)
-      || this.accessory.addService(this.platform.Service.Lightbulb);
+    // Dimmers shown as a Fan control the level with the rotation speed, Switch and Outlet have On/Off only
+    this.levelCharacteristic = serviceName === 'Fan'
+      ? this.platform.Characteristic.RotationSpeed
+      : this.platform.Characteristic.Brightness;
+    this.dimmable = device.subType === 'Dimmer' && (serviceName === 'Lightbulb' || serviceName === 'Fan');
 
-    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.name);
+    this.platform.nameService(accessory, this.service, device);
 
-    this.lightStates.On = (accessory.context.device.level > 0);
-    this.lightStates.Brightness = this.crestronRangeValueToPercentage(accessory.context.device.level);
+    this.lightStates.On = (device.level > 0);
+    this.lightStates.Brightness = this.crestronRangeValueToPercentage(device.level);
+    this.rememberLevel(this.lightStates.Brightness);
 
     // register handlers for the On/Off Characteristic
     this.service.getCharacteristic(this.platform.Characteristic.On)
       .onSet(this.setLightsState.bind(this))                // SET - bind to the `setLightsState` method below
       .onGet(this.getLightsState.bind(this));               // GET - bind to the `getLightsState` method below
 
-    if (accessory.context.device.subType === 'Dimmer') {
+    if (this.dimmable) {
       // register handlers for the Brightness Characteristic
-      this.service.getCharacteristic(this.platform.Characteristic.Brightness)
+      this.service.getCharacteristic(this.levelCharacteristic)
         .onSet(this.setBrightness.bind(this));       // SET - bind to the 'setBrightness` method below
     }
+
+    this.configureTransitionTime();
+    this.configureCurve();
+  }
+
+  public dispose() {
+    this.unsubscribeCurve?.();
+    if (this.fadeTimer) {
+      clearTimeout(this.fadeTimer);
+    }
+  }
+
+  /**
+   * Dimmers with a circadian curve get a switch to turn the curve on and off
+   */
+  private configureCurve() {
+    const subtype = `${this.crestronId}-circadian`;
+    const cached = this.accessory.getServiceById(this.platform.Service.Switch, subtype);
+    this.curve = this.dimmable ? this.platform.circadian.curveFor(this.device) : undefined;
+
+    if (!this.curve) {
+      if (cached) {
+        this.accessory.removeService(cached);
+      }
+      return;
+    }
+
+    const curveService = cached || this.accessory.addService(this.platform.Service.Switch, `${this.device.name} Curve`, subtype);
+    if (!this.service.linkedServices.includes(curveService)) {
+      this.service.addLinkedService(curveService);
+    }
+    this.platform.nameService(this.accessory, curveService, { ...this.device, name: `${this.device.name} Curve` });
+
+    curveService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(value => {
+        this.platform.log.debug('Set circadian curve ->', this.device.name, value);
+        this.accessory.context.curvesEnabled = { ...this.accessory.context.curvesEnabled, [this.crestronId]: value };
+        this.platform.api.updatePlatformAccessories([this.accessory]);
+        if (!value) {
+          this.curveLevel = undefined;
+        }
+      })
+      .onGet(() => this.curveEnabled);
+
+    this.unsubscribeCurve = this.platform.circadian.subscribe(this.followCurve.bind(this));
+  }
+
+  private get curveEnabled(): boolean {
+    return this.curve !== undefined && this.accessory.context.curvesEnabled?.[this.crestronId] !== false;
+  }
+
+  private circadianLevel(): number {
+    // a curve never turns a light off
+    return Math.max(this.platform.circadian.levelAt(this.curve!), 1);
+  }
+
+  /**
+   * Move a light that is on at the level the curve set to the curve's current level
+   */
+  private followCurve() {
+    if (!this.curveEnabled || !this.lightStates.On || this.curveLevel !== this.lightStates.Brightness) {
+      return;
+    }
+
+    const level = this.circadianLevel();
+    if (level !== this.curveLevel) {
+      this.platform.log.debug('Following circadian curve:', this.device.name, level);
+      this.sendCommand({ brightness: level, fromCurve: true })
+        .catch(error => this.platform.log.error('Error following circadian curve:', this.device.name, error));
+    }
+  }
+
+  /**
+   * Dimmers get the custom Transition Time characteristic when it is enabled, its value replaces the configured fade times
+   */
+  private configureTransitionTime() {
+    const TransitionTime = this.platform.CustomCharacteristic.TransitionTime;
+    const cached = this.service.characteristics.find(characteristic => characteristic.UUID === TransitionTime.UUID);
+
+    if (!this.dimmable || !this.platform.transitionTimeCharacteristic) {
+      if (cached) {
+        this.service.removeCharacteristic(cached);
+      }
+      return;
+    }
+
+    if (!cached) {
+      this.service.addCharacteristic(TransitionTime);
+    }
+    this.service.getCharacteristic(TransitionTime)
+      .onSet(value => {
+        this.platform.log.debug('Set Transition Time ->', this.device.name, value);
+        this.accessory.context.transitionTimes = { ...this.accessory.context.transitionTimes, [this.crestronId]: value };
+        this.platform.api.updatePlatformAccessories([this.accessory]);
+      })
+      .onGet(() => this.accessory.context.transitionTimes?.[this.crestronId] ?? this.fadeTime('brightness'));
+  }
+
+  /**
+   * Fade time in seconds for a change made from HomeKit: the Transition Time set on the light, or the configured one
+   */
+  private fadeTime(change: keyof FadeTimes): number {
+    if (!this.dimmable) {
+      return 0;
+    }
+
+    const transitionTime = this.platform.transitionTimeCharacteristic
+      ? this.accessory.context.transitionTimes?.[this.crestronId]
+      : undefined;
+    const fadeTimes = this.platform.deviceOverrides.get(this.crestronId).fadeTimes;
+
+    return transitionTime ?? fadeTimes?.[change] ?? this.platform.fadeTimes[change] ?? 0;
+  }
+
+  private async writeLevel(level: number, fadeTime: number) {
+    this.fadeUntil = Date.now() + fadeTime * 1000;
+    if (this.fadeTimer) {
+      clearTimeout(this.fadeTimer);
+      this.fadeTimer = undefined;
+    }
+
+    await this.platform.crestronClient.setLightsState([{ id: this.crestronId, level: level, time: Math.round(fadeTime * 1000) }]);
   }
 
   public updateState(device: CrestronDevice): void {
+    const fadeLeft = this.fadeUntil - Date.now();
+    if (fadeLeft > 0) {
+      this.fadePendingState = device;
+      this.fadeTimer = this.fadeTimer || setTimeout(() => {
+        const pendingState = this.fadePendingState;
+        this.fadeTimer = undefined;
+        this.fadePendingState = undefined;
+        if (pendingState) {
+          this.updateState(pendingState);
+        }
+      }, fadeLeft);
+      return;
+    }
+
     const level = this.crestronRangeValueToPercentage(device.level);
-    this.platform.log.debug('Updating Light state:', this.accessory.displayName, level);
+    this.platform.log.debug('Updating Light state:', this.device.name, level);
     this.lightStates.On = (level > 0);
     this.lightStates.Brightness = level;
+    this.rememberLevel(level);
 
     this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(this.lightStates.On);
-    if(this.accessory.context.device.subType === 'Dimmer') {
-      this.service.getCharacteristic(this.platform.Characteristic.Brightness).updateValue(this.lightStates.Brightness);
+    if(this.dimmable) {
+      this.service.getCharacteristic(this.levelCharacteristic).updateValue(this.lightStates.Brightness);
     }
   }
 
@@ -69,12 +242,8 @@ export class CrestronHomeLight implements CrestronAccessory{
    * These are sent when the user changes the state of an accessory, for example, turning on a Light bulb.
    */
   async setLightsState(value: CharacteristicValue) {
-    // implement your own code to turn your device on/off
-    this.lightStates.On = value as boolean;
-    const level = value ? 65535 : 0;
-
-    this.platform.crestronClient.setLightsState([{ id: this.crestronId, level: level, time: 0 }]);
     this.platform.log.debug('Set Light On ->', value);
+    await this.sendCommand({ on: value as boolean });
   }
 
   /**
@@ -82,8 +251,8 @@ export class CrestronHomeLight implements CrestronAccessory{
    * These are sent when HomeKit wants to know the current state of the accessory, for example, checking if a Light bulb is on.
    */
   getLightsState(): CharacteristicValue {
-
-    this.platform.log.debug('Get Light state for:', this.accessory.displayName, this.lightStates);
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get Light state for:', this.device.name, this.lightStates);
     return this.lightStates.On;
   }
 
@@ -92,12 +261,98 @@ export class CrestronHomeLight implements CrestronAccessory{
    * These are sent when the user changes the state of an accessory, for example, changing the Brightness
    */
   async setBrightness(value: CharacteristicValue) {
-    // implement your own code to set the brightness
-    this.lightStates.Brightness = value as number;
-
-    this.platform.crestronClient.setLightsState(
-      [{ id: this.crestronId, level: this.percentageToCrestronRangeValue(value as number), time: 0 }]);
     this.platform.log.debug('Set Brightness -> ', value);
+    await this.sendCommand({ brightness: value as number });
+  }
+
+  /**
+   * Merge the change into the command of the current HomeKit request, which is sent once all of its characteristics are set
+   */
+  private sendCommand(change: LightCommand): Promise<void> {
+    let pending = this.pendingCommand;
+    if (!pending) {
+      const command: LightCommand = {};
+      const wasOn = this.lightStates.On;
+      const sent = new Promise<void>(resolve => setImmediate(resolve)).then(() => {
+        this.pendingCommand = undefined;
+        return this.executeCommand(command, wasOn);
+      });
+      pending = this.pendingCommand = { command, sent };
+    }
+
+    Object.assign(pending.command, change);
+    return pending.sent;
+  }
+
+  private async executeCommand(command: LightCommand, wasOn: boolean) {
+    let brightness: number;
+    let curveLevel: number | undefined;
+    if (command.on === false) {
+      brightness = 0;
+    } else if (command.brightness !== undefined) {
+      brightness = command.brightness;
+      curveLevel = command.fromCurve ? brightness : undefined;
+    } else if (wasOn) {
+      // a light that is already on keeps its level
+      brightness = this.lightStates.Brightness;
+      curveLevel = this.curveLevel;
+    } else {
+      brightness = this.onLevel();
+      curveLevel = this.curveEnabled ? brightness : undefined;
+    }
+
+    if (this.curveEnabled && this.curve!.limit && brightness > 0) {
+      brightness = Math.min(brightness, this.circadianLevel());
+    }
+    this.curveLevel = curveLevel;
+
+    const change: keyof FadeTimes = brightness === 0 ? 'off' : wasOn ? 'brightness' : 'on';
+    this.lightStates.On = brightness > 0;
+    if (brightness > 0) {
+      this.lightStates.Brightness = brightness;
+      this.rememberLevel(brightness);
+    }
+
+    if (this.dimmable) {
+      this.service.getCharacteristic(this.levelCharacteristic).updateValue(this.lightStates.Brightness);
+    }
+
+    const level = this.dimmable ? this.percentageToCrestronRangeValue(brightness) : (brightness > 0 ? 65535 : 0);
+    await this.writeLevel(level, this.fadeTime(change));
+  }
+
+  /**
+   * Brightness a dimmer turns on with: the level of its curve, its last level, full, or a preset - configured globally or per device
+   */
+  private onLevel(): number {
+    if (!this.dimmable) {
+      return 100;
+    }
+    if (this.curveEnabled) {
+      return this.circadianLevel();
+    }
+
+    const override = this.platform.deviceOverrides.get(this.crestronId);
+    switch (override.onBehavior || this.platform.onBehavior) {
+      case 'full':
+        return 100;
+      case 'preset':
+        return override.onPreset ?? this.platform.onPreset ?? 100;
+      case 'last':
+      default:
+        return this.accessory.context.lastLevels?.[this.crestronId] ?? 100;
+    }
+  }
+
+  /**
+   * Keep the last non-zero level in the accessory context, so it survives restarts
+   */
+  private rememberLevel(brightness: number) {
+    if (!this.dimmable || brightness <= 0 || this.accessory.context.lastLevels?.[this.crestronId] === brightness) {
+      return;
+    }
+    this.accessory.context.lastLevels = { ...this.accessory.context.lastLevels, [this.crestronId]: brightness };
+    this.platform.api.updatePlatformAccessories([this.accessory]);
   }
 
   crestronRangeValueToPercentage(value: number): number{
@@ -1,8 +1,12 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { CrestronDevice } from './crestronClient';
+import { ScenePresentation } from './deviceOverrides';
 
 import { CrestronHomePlatform, CrestronAccessory } from './platform';
 
+// a momentary switch turns itself off again after this long
+const MOMENTARY_RESET_MILLIS = 1000;
+
 /**
  * Platform Accessory
  * An instance of this class is created for each accessory your platform registers
@@ -13,27 +17,27 @@ export class CrestronHomeScene implements CrestronAccessory {
 
   private service!: Service;
   private sceneStatus = false;
+  private presentation: ScenePresentation = 'momentary';
+  // the state a momentary or status switch shows until it resets
+  private switchState = false;
+  private resetTimer?: NodeJS.Timeout;
 
   constructor(
     private readonly platform: CrestronHomePlatform,
     private readonly accessory: PlatformAccessory,
+    private device: CrestronDevice = accessory.context.device,
   ) {
 
     // platform.log.debug('CREATING SCENE:', accessory.context.device);
-    this.crestronId = accessory.context.device.id;
-    this.sceneStatus = accessory.context.device.status;
+    this.crestronId = device.id;
+    this.sceneStatus = device.status;
 
     // set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Crestron Electronics')
-      .setCharacteristic(this.platform.Characteristic.Model, 'Default-Model')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, `Crestron-${this.crestronId}`);
-
-
+    this.platform.setAccessoryInformation(accessory, device);
 
-    switch(accessory.context.device.subType) {
+    switch(device.subType) {
       // case 'Lighting':  // Expose a Lighting schene as a LightBulb
-      //   this.platform.log.debug('Adding Lighting scene Lightbulb:', this.accessory.displayName, accessory.context.device);
+      //   this.platform.log.debug('Adding Lighting scene Lightbulb:', this.device.name, accessory.context.device);
 
       //   this.service = this.accessory.getService(this.platform.Service.Lightbulb)
       // || this.accessory.addService(this.platform.Service.Lightbulb);
@@ -41,54 +45,151 @@ export class CrestronHomeScene implements CrestronAccessory {
       //   this.sceneStatus = this.accessory.context.device.status;
       //   break;
       case 'genericIO':
-        this.service = this.accessory.getService(this.platform.Service.LockMechanism)
-        || this.accessory.addService(this.platform.Service.LockMechanism);
+        this.service = this.platform.deviceService(accessory, device, this.platform.Service.LockMechanism);
 
-        this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.name);
+        this.platform.nameService(accessory, this.service, device);
         this.service.getCharacteristic(this.platform.Characteristic.LockCurrentState)
           .onGet(this.getLockCurrentState.bind(this));
 
         this.service.getCharacteristic(this.platform.Characteristic.LockTargetState)
           .onGet(this.getLockCurrentState.bind(this))
-          .onSet(this.recallScene.bind(this));
+          .onSet(this.setLockTarget.bind(this));
 
         return;  // Finished with Lock setup, returning
       default:
-        // by default scenes are exposed as Switch
-        this.service = this.accessory.getService(this.platform.Service.Switch)
-        || this.accessory.addService(this.platform.Service.Switch);
         break;
     }
 
+    // paired "On"/"Off" scenes are always one switch, otherwise the presentation is configurable
+    this.presentation = device.pairedScene
+      ? 'status'
+      : this.platform.deviceOverrides.get(this.crestronId).scenePresentation || this.platform.scenePresentation;
+    const sceneServices = [this.platform.Service.Switch, this.platform.Service.StatelessProgrammableSwitch];
+
+    if (this.presentation === 'stateless') {
+      this.service = this.platform.deviceService(accessory, device, this.platform.Service.StatelessProgrammableSwitch, sceneServices);
+      this.platform.nameService(accessory, this.service, device);
+      this.service.getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+        .setProps({ validValues: [this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS] });
+      return;
+    }
+
+    // by default scenes are exposed as Switch
+    this.service = this.platform.deviceService(accessory, device, this.platform.Service.Switch, sceneServices);
+    this.switchState = this.presentation === 'status' ? this.pairedState(device) : false;
+
     // set the service name, this is what is displayed as the default name on the Home app
-    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.name);
+    this.platform.nameService(accessory, this.service, device);
     this.service.getCharacteristic(this.platform.Characteristic.On)
       .onGet(this.getSceneState.bind(this))
-      .onSet(this.recallScene.bind(this));
+      .onSet(this.setSceneSwitch.bind(this));
   }
 
   public updateState(device: CrestronDevice): void {
-    this.platform.log.debug('Updating Scene status:', this.accessory.displayName, device.status);
+    this.platform.log.debug('Updating Scene status:', this.device.name, device.status);
+    const activated = device.status && !this.sceneStatus;
     this.sceneStatus = device.status;
-    if (device.subType !== 'genericIO') {
-      this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(this.sceneStatus);
+    this.device = device;
+
+    switch (this.presentation) {
+      case 'stateless':
+        // the scene was recalled (from a keypad, the Crestron app or HomeKit), trigger the automations of the button
+        if (activated) {
+          this.service.getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+            .updateValue(this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+        }
+        break;
+      case 'status':
+        if (!this.resetTimer) {
+          this.switchState = this.pairedState(device);
+          this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(this.switchState);
+        }
+        break;
     }
   }
 
+  public dispose() {
+    clearTimeout(this.resetTimer);
+  }
+
   getSceneState(): CharacteristicValue{
-    this.platform.log.debug('Get scene state:', this.accessory.displayName, this.sceneStatus);
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get scene state:', this.device.name, this.switchState);
 
-    return this.sceneStatus;
+    return this.switchState;
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit to the scene switch. Turning a momentary or status switch on recalls the scene,
+   * turning it off does nothing - the switch goes back to off, or to the scene status, by itself.
+   * A paired switch recalls its "On" or "Off" scene. A scene that can't be recalled leaves the switch as it was.
+   */
+  async setSceneSwitch(value: CharacteristicValue) {
+    const pairedScene = this.device.pairedScene;
+
+    try {
+      if (pairedScene) {
+        await this.recall(value ? this.crestronId : pairedScene.id);
+      } else if (value) {
+        await this.recallScene(value);
+      }
+    } catch (error) {
+      this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(this.switchState);
+      throw error;
+    }
+
+    this.switchState = value as boolean;
+    if (pairedScene) {
+      return;
+    }
+
+    clearTimeout(this.resetTimer);
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = undefined;
+      this.switchState = this.presentation === 'status' ? this.sceneStatus : false;
+      this.service.getCharacteristic(this.platform.Characteristic.On).updateValue(this.switchState);
+    }, MOMENTARY_RESET_MILLIS);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit to a genericIO lock. Its relay scene opens whatever it drives, whichever target
+   * is set, so every recall goes through the unlock policy.
+   */
+  async setLockTarget(value: CharacteristicValue) {
+    const denied = this.platform.safety.check('unlock', { id: this.crestronId, name: this.device.name });
+    if (denied) {
+      this.service.getCharacteristic(this.platform.Characteristic.LockTargetState)
+        .updateValue(this.platform.Characteristic.LockTargetState.SECURED);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INSUFFICIENT_PRIVILEGES);
+    }
+    await this.recallScene(value);
   }
 
   async recallScene(value: CharacteristicValue) {
+    this.platform.log.debug('Recalling scene:', this.device.name, value);
+    await this.recall(this.crestronId);
+  }
+
+  private async recall(sceneId: number) {
+    const result = await this.platform.crestronClient.recallScene(sceneId);
+    if (result === undefined) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
 
-    this.sceneStatus ? this.sceneStatus = false : this.sceneStatus = true;
-    this.platform.log.debug('Recalling scene with status:', value);
-    this.platform.crestronClient.recallScene(this.crestronId);
+  /**
+   * A paired switch is on while its "On" scene is active and off while its "Off" scene is, in between it keeps its state.
+   * Other switches mirror the scene status.
+   */
+  private pairedState(device: CrestronDevice): boolean {
+    if (!device.pairedScene || device.status) {
+      return device.status;
+    }
+    return device.pairedScene.status ? false : this.switchState;
   }
 
   getLockCurrentState(): CharacteristicValue{
+    this.platform.assertReachable(this.crestronId);
     return this.platform.Characteristic.LockCurrentState.SECURED;
   }
 
@@ -0,0 +1,243 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { CrestronDevice } from './crestronClient';
+import { SceneMappingConfig } from './sceneMappings';
+
+import { CrestronHomePlatform } from './platform';
+
+type DoorState = 'open' | 'closed';
+
+/**
+ * A LockMechanism, GarageDoorOpener or Door driven by genericIO scenes: the open scene (and close scene, or the open
+ * scene pulsed again) is recalled to move it. Its state comes from a Crestron device or scene status when configured,
+ * a command that isn't confirmed by it in time reports the lock jammed or the door obstructed.
+ * Without a state, the commanded state is shown optimistically - a pulsed relay falls back to closed after the timeout.
+ */
+export class CrestronHomeSceneMapping {
+  private service: Service;
+
+  private current: DoorState = 'closed';
+  private target: DoorState = 'closed';
+  private fault = false;
+  private pendingTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly platform: CrestronHomePlatform,
+    public readonly accessory: PlatformAccessory,
+    private readonly mapping: SceneMappingConfig,
+    stateDevice?: CrestronDevice,
+  ) {
+
+    platform.log.debug('Creating scene mapping:', mapping);
+    if (stateDevice) {
+      this.current = this.target = this.stateOf(stateDevice);
+    }
+
+    accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Crestron Electronics')
+      .setCharacteristic(this.platform.Characteristic.Model, 'genericIO')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `Crestron-${mapping.openScene}`);
+
+    // services of the other types, left in the cache when the mapping's service changed, are removed
+    const serviceName = mapping.service || 'LockMechanism';
+    this.service = this.platform.getOrReplaceService(
+      accessory,
+      this.platform.Service[serviceName],
+      [this.platform.Service.LockMechanism, this.platform.Service.GarageDoorOpener, this.platform.Service.Door],
+    );
+    this.service.setCharacteristic(this.platform.Characteristic.Name, mapping.name);
+
+    const Characteristic = this.platform.Characteristic;
+    switch (serviceName) {
+      case 'LockMechanism':
+        this.service.getCharacteristic(Characteristic.LockCurrentState).onGet(() => this.getCurrent());
+        this.service.getCharacteristic(Characteristic.LockTargetState)
+          .onGet(() => this.targetValue())
+          .onSet(value => this.setTarget(value === Characteristic.LockTargetState.UNSECURED ? 'open' : 'closed'));
+        break;
+      case 'GarageDoorOpener':
+        this.service.getCharacteristic(Characteristic.CurrentDoorState).onGet(() => this.getCurrent());
+        this.service.getCharacteristic(Characteristic.TargetDoorState)
+          .onGet(() => this.targetValue())
+          .onSet(value => this.setTarget(value === Characteristic.TargetDoorState.OPEN ? 'open' : 'closed'));
+        this.service.getCharacteristic(Characteristic.ObstructionDetected).onGet(() => this.fault);
+        break;
+      case 'Door':
+        this.service.getCharacteristic(Characteristic.CurrentPosition).onGet(() => this.getCurrent());
+        this.service.getCharacteristic(Characteristic.TargetPosition)
+          .onGet(() => this.targetValue())
+          .onSet(value => this.setTarget(value as number >= 50 ? 'open' : 'closed'));
+        this.service.getCharacteristic(Characteristic.PositionState).onGet(() => this.positionState());
+        this.service.getCharacteristic(Characteristic.ObstructionDetected).onGet(() => this.fault);
+        break;
+    }
+  }
+
+  /**
+   * Called with every device update, the mapping only follows its state device
+   */
+  public updateSource(device: CrestronDevice) {
+    if (device.id !== this.mapping.stateId) {
+      return;
+    }
+
+    const state = this.stateOf(device);
+    this.platform.log.debug('Updating scene mapping state:', this.mapping.name, state);
+    this.current = state;
+    if (this.pendingTimer && state === this.target) {
+      // the command is confirmed
+      this.clearPending();
+      this.fault = false;
+    } else if (!this.pendingTimer) {
+      // moved outside of HomeKit
+      this.target = state;
+    }
+    this.updateCharacteristics();
+  }
+
+  public dispose() {
+    this.clearPending();
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit to the target state, opening (unlocking) only when the safety policy allows it
+   */
+  async setTarget(target: DoorState) {
+    this.platform.log.debug('Set scene mapping target:', this.mapping.name, target);
+    if (target === 'open') {
+      const denied = this.platform.safety.check('unlock', { id: this.mapping.openScene, name: this.mapping.name });
+      if (denied) {
+        // show the target it still has
+        this.updateCharacteristics();
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INSUFFICIENT_PRIVILEGES);
+      }
+    }
+    const scene = target === 'closed' && this.mapping.closeScene !== undefined ? this.mapping.closeScene : this.mapping.openScene;
+    this.target = target;
+    this.fault = false;
+
+    // a pulsed relay toggles, pulsing it to where it already is would move it the other way
+    if (this.mapping.closeScene === undefined && target === this.current) {
+      this.updateCharacteristics();
+      return;
+    }
+    this.clearPending();
+
+    const result = await this.platform.crestronClient.recallScene(scene);
+    if (result === undefined) {
+      this.failed('the scene could not be recalled');
+      return;
+    }
+
+    const timeout = (this.mapping.timeout ?? 30) * 1000;
+    if (this.mapping.stateId !== undefined) {
+      // wait for the state device to confirm
+      this.pendingTimer = setTimeout(() => {
+        this.pendingTimer = undefined;
+        if (this.current !== this.target) {
+          this.failed(`the state didn't change to ${this.target} in time`);
+        }
+      }, timeout);
+      this.updateCharacteristics();
+      return;
+    }
+
+    // no state to confirm it, show the command as done
+    this.current = target;
+    if (target === 'open' && this.mapping.closeScene === undefined) {
+      // a pulsed relay (e.g. a gate that closes by itself) doesn't stay open
+      this.pendingTimer = setTimeout(() => {
+        this.pendingTimer = undefined;
+        this.current = this.target = 'closed';
+        this.updateCharacteristics();
+      }, timeout);
+    }
+    this.updateCharacteristics();
+  }
+
+  private failed(reason: string) {
+    this.platform.log.warn(`${this.mapping.name} failed to move, ${reason}`);
+    this.fault = true;
+    this.target = this.current;
+    this.updateCharacteristics();
+  }
+
+  private clearPending() {
+    clearTimeout(this.pendingTimer);
+    this.pendingTimer = undefined;
+  }
+
+  private stateOf(device: CrestronDevice): DoorState {
+    const on = device.status || device.level > 0;
+    return on !== (this.mapping.stateInverted === true) ? 'open' : 'closed';
+  }
+
+  /**
+   * Handle requests to get the current state, failed while the state device can't be reached
+   */
+  private getCurrent(): CharacteristicValue {
+    if (this.mapping.stateId !== undefined) {
+      this.platform.assertReachable(this.mapping.stateId);
+    }
+    return this.currentValue();
+  }
+
+  private currentValue(): CharacteristicValue {
+    const Characteristic = this.platform.Characteristic;
+    const moving = this.pendingTimer !== undefined && this.mapping.stateId !== undefined && this.current !== this.target;
+    switch (this.mapping.service || 'LockMechanism') {
+      case 'LockMechanism':
+        if (this.fault) {
+          return Characteristic.LockCurrentState.JAMMED;
+        }
+        return this.current === 'open' ? Characteristic.LockCurrentState.UNSECURED : Characteristic.LockCurrentState.SECURED;
+      case 'GarageDoorOpener':
+        if (moving) {
+          return this.target === 'open' ? Characteristic.CurrentDoorState.OPENING : Characteristic.CurrentDoorState.CLOSING;
+        }
+        return this.current === 'open' ? Characteristic.CurrentDoorState.OPEN : Characteristic.CurrentDoorState.CLOSED;
+      default:
+        return this.current === 'open' ? 100 : 0;
+    }
+  }
+
+  private targetValue(): CharacteristicValue {
+    const Characteristic = this.platform.Characteristic;
+    switch (this.mapping.service || 'LockMechanism') {
+      case 'LockMechanism':
+        return this.target === 'open' ? Characteristic.LockTargetState.UNSECURED : Characteristic.LockTargetState.SECURED;
+      case 'GarageDoorOpener':
+        return this.target === 'open' ? Characteristic.TargetDoorState.OPEN : Characteristic.TargetDoorState.CLOSED;
+      default:
+        return this.target === 'open' ? 100 : 0;
+    }
+  }
+
+  private positionState(): CharacteristicValue {
+    const PositionState = this.platform.Characteristic.PositionState;
+    if (this.current === this.target) {
+      return PositionState.STOPPED;
+    }
+    return this.target === 'open' ? PositionState.INCREASING : PositionState.DECREASING;
+  }
+
+  private updateCharacteristics() {
+    const Characteristic = this.platform.Characteristic;
+    switch (this.mapping.service || 'LockMechanism') {
+      case 'LockMechanism':
+        this.service.getCharacteristic(Characteristic.LockCurrentState).updateValue(this.currentValue());
+        this.service.getCharacteristic(Characteristic.LockTargetState).updateValue(this.targetValue());
+        break;
+      case 'GarageDoorOpener':
+        this.service.getCharacteristic(Characteristic.CurrentDoorState).updateValue(this.currentValue());
+        this.service.getCharacteristic(Characteristic.TargetDoorState).updateValue(this.targetValue());
+        this.service.getCharacteristic(Characteristic.ObstructionDetected).updateValue(this.fault);
+        break;
+      case 'Door':
+        this.service.getCharacteristic(Characteristic.CurrentPosition).updateValue(this.currentValue());
+        this.service.getCharacteristic(Characteristic.TargetPosition).updateValue(this.targetValue());
+        this.service.getCharacteristic(Characteristic.PositionState).updateValue(this.positionState());
+        this.service.getCharacteristic(Characteristic.ObstructionDetected).updateValue(this.fault);
+        break;
+    }
+  }
+}
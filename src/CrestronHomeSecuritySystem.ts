@@ -1,5 +1,9 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
-import { CrestronDevice } from './crestronClient';
+import { CrestronDevice, SecurityStateResult } from './crestronClient';
+import {
+  DEFAULT_SECURITY_MODES, SecurityMode, SecurityModeMap, SecurityStatus,
+  isArmedOrArming, nextSecurityStatus, requestSecurityMode, securityModeMap,
+} from './securityStates';
 
 import { CrestronHomePlatform, CrestronAccessory } from './platform';
 
@@ -10,12 +14,9 @@ import { CrestronHomePlatform, CrestronAccessory } from './platform';
 export class CrestronHomeSecuritySystem implements CrestronAccessory {
   private service: Service;
 
-  private securitySystemStates = {
-    SecuritySystemCurrentState: 3, // Disarmed by default
-    SecuritySystemTargetState: 3,  // Disarmed by default
-    SecuritySystemAlarmType: 0,    // No alarm
-    StatusFault: 0,                // No fault
-  };
+  private status: SecurityStatus = { current: 'disarmed', target: 'disarmed', alarm: 'none' };
+  private modes: SecurityModeMap;
+  private statusFault = 0;
 
   public crestronId = 0;
 
@@ -38,18 +39,26 @@ export class CrestronHomeSecuritySystem implements CrestronAccessory {
 
     this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.name);
 
+    // HomeKit modes whose Crestron state the panel doesn't offer can't be selected
+    const { modes, unavailable } = securityModeMap(this.platform.securityModes, accessory.context.device.securityAvailableStates);
+    this.modes = modes;
+    if (unavailable.length) {
+      this.platform.log.info(
+        `${this.accessory.displayName} doesn't offer the states of the modes ${unavailable.join(', ')}, available states:`,
+        accessory.context.device.securityAvailableStates,
+      );
+    }
+    const modeValues = (Object.keys(modes) as SecurityMode[]).map(mode => this.homeKitMode(mode));
+    this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemTargetState).setProps({ validValues: modeValues });
+
     // Initialize states from device context
     if (accessory.context.device.securityCurrentState) {
-      this.securitySystemStates.SecuritySystemCurrentState = this.crestronStateToHomeKit(
-        accessory.context.device.securityCurrentState,
-      );
-      this.securitySystemStates.SecuritySystemTargetState = this.securitySystemStates.SecuritySystemCurrentState;
+      this.status = nextSecurityStatus(this.status, accessory.context.device.securityCurrentState, this.modes) || this.status;
     }
 
     // Set connection status
     if (accessory.context.device.connectionStatus) {
-      this.securitySystemStates.StatusFault =
-        accessory.context.device.connectionStatus === 'online' ? 0 : 1;
+      this.statusFault = accessory.context.device.connectionStatus === 'online' ? 0 : 1;
     }
 
     // register handlers for the Security System Current State Characteristic (read-only)
@@ -73,70 +82,60 @@ export class CrestronHomeSecuritySystem implements CrestronAccessory {
   public updateState(device: CrestronDevice): void {
     this.platform.log.debug('Updating Security System state:', this.accessory.displayName, device);
 
-    // Update current state
+    // Update current and target state, the target stays on a mode requested from HomeKit until the panel reaches it
     if (device.securityCurrentState !== undefined) {
-      this.securitySystemStates.SecuritySystemCurrentState = this.crestronStateToHomeKit(device.securityCurrentState);
-      // Update target state to match current state (since we can't set target yet)
-      this.securitySystemStates.SecuritySystemTargetState = this.securitySystemStates.SecuritySystemCurrentState;
-    }
-
-    // Update alarm type based on current state
-    if (device.securityCurrentState === 'Alarm' || device.securityCurrentState === 'Fire') {
-      this.securitySystemStates.SecuritySystemAlarmType = 1; // Unknown alarm type
-    } else {
-      this.securitySystemStates.SecuritySystemAlarmType = 0; // No alarm
+      const status = nextSecurityStatus(this.status, device.securityCurrentState, this.modes);
+      if (!status) {
+        this.platform.log.warn('Unknown Crestron security state:', device.securityCurrentState, '- keeping the previous state');
+      } else {
+        if (status.alarm !== 'none' && status.alarm !== this.status.alarm) {
+          this.platform.log.warn(`🚨 SECURITY: ${status.alarm === 'fire' ? 'Fire' : 'Burglary'} alarm on "${this.accessory.displayName}"`);
+        }
+        this.status = status;
+      }
     }
 
     // Update connection status
     if (device.connectionStatus !== undefined) {
-      this.securitySystemStates.StatusFault = device.connectionStatus === 'online' ? 0 : 1;
+      this.statusFault = device.connectionStatus === 'online' ? 0 : 1;
     }
 
-    // Update all HomeKit characteristics
-    this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemCurrentState)
-      .updateValue(this.securitySystemStates.SecuritySystemCurrentState);
+    this.updateCharacteristics();
+  }
+
+  private updateCharacteristics() {
+    this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemCurrentState).updateValue(this.currentValue());
     this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemTargetState)
-      .updateValue(this.securitySystemStates.SecuritySystemTargetState);
-    this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemAlarmType)
-      .updateValue(this.securitySystemStates.SecuritySystemAlarmType);
-    this.service.getCharacteristic(this.platform.Characteristic.StatusFault)
-      .updateValue(this.securitySystemStates.StatusFault);
+      .updateValue(this.homeKitMode(this.status.target));
+    this.service.getCharacteristic(this.platform.Characteristic.SecuritySystemAlarmType).updateValue(this.alarmTypeValue());
+    this.service.getCharacteristic(this.platform.Characteristic.StatusFault).updateValue(this.statusFault);
   }
 
   /**
    * Handle requests to get the current value of the "Security System Current State" characteristic
    */
   getSecuritySystemCurrentState(): CharacteristicValue {
-    this.platform.log.debug(
-      'Get Security System Current State for:',
-      this.accessory.displayName,
-      this.securitySystemStates.SecuritySystemCurrentState,
-    );
-    return this.securitySystemStates.SecuritySystemCurrentState;
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get Security System Current State for:', this.accessory.displayName, this.status.current);
+    return this.currentValue();
   }
 
   /**
    * Handle requests to get the current value of the "Security System Target State" characteristic
    */
   getSecuritySystemTargetState(): CharacteristicValue {
-    this.platform.log.debug(
-      'Get Security System Target State for:',
-      this.accessory.displayName,
-      this.securitySystemStates.SecuritySystemTargetState,
-    );
-    return this.securitySystemStates.SecuritySystemTargetState;
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get Security System Target State for:', this.accessory.displayName, this.status.target);
+    return this.homeKitMode(this.status.target);
   }
 
   /**
    * Handle requests to get the current value of the "Security System Alarm Type" characteristic
    */
   getSecuritySystemAlarmType(): CharacteristicValue {
-    this.platform.log.debug(
-      'Get Security System Alarm Type for:',
-      this.accessory.displayName,
-      this.securitySystemStates.SecuritySystemAlarmType,
-    );
-    return this.securitySystemStates.SecuritySystemAlarmType;
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get Security System Alarm Type for:', this.accessory.displayName, this.status.alarm);
+    return this.alarmTypeValue();
   }
 
   /**
@@ -146,99 +145,112 @@ export class CrestronHomeSecuritySystem implements CrestronAccessory {
     this.platform.log.debug(
       'Get Status Fault for:',
       this.accessory.displayName,
-      this.securitySystemStates.StatusFault,
+      this.statusFault,
     );
-    return this.securitySystemStates.StatusFault;
+    if (!this.platform.isReachable(this.crestronId)) {
+      return this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+    }
+    return this.statusFault;
   }
 
   /**
-   * Convert Crestron security state to HomeKit security state
-   *
-   * HomeKit SecuritySystemCurrentState values:
-   * 0 = Stay Arm
-   * 1 = Away Arm
-   * 2 = Night Arm
-   * 3 = Disarmed
-   * 4 = Alarm Triggered
-   *
-   * Crestron states from API: "Alarm", "ArmAway", "ArmInstant", "ArmStay", "Disarmed", "EntryDelay", "ExitDelay", "Fire"
+   * HomeKit SecuritySystemCurrentState value of the status: Stay/Away/Night Arm, Disarmed or Alarm Triggered
    */
-  private crestronStateToHomeKit(crestronState: string): number {
-    const upperState = crestronState.toUpperCase();
-
-    switch (upperState) {
-      case 'DISARMED':
-        return this.platform.Characteristic.SecuritySystemCurrentState.DISARMED;
-
-      case 'ARMSTAY':
-        return this.platform.Characteristic.SecuritySystemCurrentState.STAY_ARM;
-
-      case 'ARMAWAY':
-        return this.platform.Characteristic.SecuritySystemCurrentState.AWAY_ARM;
-
-      case 'ARMINSTANT':
-        // Map "Instant" to "Night Arm" as closest equivalent
-        return this.platform.Characteristic.SecuritySystemCurrentState.NIGHT_ARM;
-
-      case 'ALARM':
-      case 'FIRE':
-        return this.platform.Characteristic.SecuritySystemCurrentState.ALARM_TRIGGERED;
+  private currentValue(): number {
+    if (this.status.current === 'triggered') {
+      return this.platform.Characteristic.SecuritySystemCurrentState.ALARM_TRIGGERED;
+    }
+    return this.homeKitMode(this.status.current);
+  }
 
-      case 'ENTRYDELAY':
-      case 'EXITDELAY':
-        // During entry/exit delay, system is still technically armed
-        // Default to Away Arm for delays (could be refined based on previous state)
-        return this.platform.Characteristic.SecuritySystemCurrentState.AWAY_ARM;
+  /**
+   * HomeKit only knows "no alarm" and "unknown alarm type": an intrusion is the alarm a security system is triggered
+   * by without further explanation, a fire alarm is reported as the other type
+   */
+  private alarmTypeValue(): number {
+    return this.status.alarm === 'fire' ? 1 : 0;
+  }
 
+  /**
+   * HomeKit target state value of a mode, the current state uses the same values
+   */
+  private homeKitMode(mode: SecurityMode): number {
+    const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+    switch (mode) {
+      case 'stay':
+        return TargetState.STAY_ARM;
+      case 'away':
+        return TargetState.AWAY_ARM;
+      case 'night':
+        return TargetState.NIGHT_ARM;
       default:
-        this.platform.log.warn('Unknown Crestron security state:', crestronState, '- defaulting to Disarmed');
-        return this.platform.Characteristic.SecuritySystemCurrentState.DISARMED;
+        return TargetState.DISARM;
     }
   }
 
-  /**
-   * Convert HomeKit security state to Crestron security state
-   * Used by the SET handler to translate HomeKit commands to Crestron API calls
-   */
-  private homeKitStateToCrestron(homeKitState: number): 'Disarmed' | 'ArmStay' | 'ArmAway' | 'ArmInstant' {
-    switch (homeKitState) {
-      case this.platform.Characteristic.SecuritySystemTargetState.DISARM:
-        return 'Disarmed';
-      case this.platform.Characteristic.SecuritySystemTargetState.STAY_ARM:
-        return 'ArmStay';
-      case this.platform.Characteristic.SecuritySystemTargetState.AWAY_ARM:
-        return 'ArmAway';
-      case this.platform.Characteristic.SecuritySystemTargetState.NIGHT_ARM:
-        return 'ArmInstant';
+  private securityMode(value: number): SecurityMode {
+    const TargetState = this.platform.Characteristic.SecuritySystemTargetState;
+    switch (value) {
+      case TargetState.STAY_ARM:
+        return 'stay';
+      case TargetState.AWAY_ARM:
+        return 'away';
+      case TargetState.NIGHT_ARM:
+        return 'night';
       default:
-        return 'Disarmed';
+        return 'disarmed';
     }
   }
 
   /**
    * Handle "SET" requests from HomeKit to set the "Security System Target State" characteristic
-   * This allows HomeKit to arm/disarm the security system
+   * This allows HomeKit to arm/disarm the security system, with the Crestron state configured for the mode.
+   * Disarming is only carried out when the safety policy allows it
    */
   async setSecuritySystemTargetState(value: CharacteristicValue) {
-    this.securitySystemStates.SecuritySystemTargetState = value as number;
-    const crestronState = this.homeKitStateToCrestron(this.securitySystemStates.SecuritySystemTargetState);
+    const mode = this.securityMode(value as number);
+    const crestronState = this.modes[mode] || DEFAULT_SECURITY_MODES.disarmed;
+
+    if (mode === 'disarmed' && isArmedOrArming(this.status)) {
+      const denied = this.platform.safety.check('disarm', { id: this.crestronId, name: this.accessory.displayName });
+      if (denied) {
+        this.updateCharacteristics();
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INSUFFICIENT_PRIVILEGES);
+      }
+    }
+    this.status = requestSecurityMode(this.status, mode);
 
     this.platform.log.info(
       `🔒 SECURITY: Setting security system "${this.accessory.displayName}" to: ${crestronState} (HomeKit value: ${value})`,
     );
 
+    let result: SecurityStateResult;
     try {
-      await this.platform.crestronClient.setSecuritySystemState({
+      result = await this.platform.crestronClient.setSecuritySystemState({
         id: this.crestronId,
         state: crestronState,
       });
-
-      this.platform.log.info(`✅ SECURITY: Successfully set security system state to: ${crestronState}`);
     } catch (error) {
       this.platform.log.error('❌ SECURITY: Failed to set security system state:', error);
-      // Reset target state to current state on error
-      this.securitySystemStates.SecuritySystemTargetState = this.securitySystemStates.SecuritySystemCurrentState;
-      throw error;
+      this.rollBack();
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+
+    if (!result.confirmed) {
+      this.platform.log.error(`❌ SECURITY: "${this.accessory.displayName}" didn't change to ${crestronState}`);
+      this.rollBack(result.state);
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
     }
+    this.platform.log.info(`✅ SECURITY: Successfully set security system state to: ${crestronState}`);
+  }
+
+  /**
+   * Drop the requested mode after it failed, HomeKit shows the state the panel reported instead
+   */
+  private rollBack(crestronState?: string) {
+    const status: SecurityStatus = { ...this.status, pending: undefined };
+    const current = status.current === 'triggered' ? status.armed || 'disarmed' : status.current;
+    this.status = (crestronState && nextSecurityStatus(status, crestronState, this.modes)) || { ...status, target: current };
+    this.updateCharacteristics();
   }
 }
@@ -1,5 +1,7 @@
-import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
-import { CrestronDevice } from './crestronClient';
+import { Service, PlatformAccessory, CharacteristicValue, Characteristic, WithUUID } from 'homebridge';
+import { CrestronDevice, ShadeMotor } from './crestronClient';
+import { OverrideService } from './deviceOverrides';
+import { ShadeMotionState, ShadeMotionTracker } from './shadeMotion';
 
 import { CrestronHomePlatform, CrestronAccessory } from './platform';
 
@@ -14,29 +16,43 @@ export class CrestronHomeShade implements CrestronAccessory {
     PositionState: this.platform.Characteristic.PositionState.STOPPED,
   };
 
-  private activeInterval: NodeJS.Timer | undefined;
+  private motion: ShadeMotionTracker;
+  private motors: ShadeMotor[];
+
+  // shades reporting a tilt (or configured with one) get the horizontal or vertical tilt angle characteristics
+  private tiltCharacteristics?: { current: WithUUID<new () => Characteristic>; target: WithUUID<new () => Characteristic> };
+  private tiltStates = {
+    Current: 0,
+    Target: 0,
+  };
 
   constructor(
     private readonly platform: CrestronHomePlatform,
     private readonly accessory: PlatformAccessory,
+    private readonly device: CrestronDevice = accessory.context.device,
   ) {
 
-    platform.log.debug('Creating Shade:', accessory.context.device);
-    this.crestronId = accessory.context.device.id;
-    this.shadeStates.CurrentPosition = this.crestronRangeValueToPercentage(accessory.context.device.position);
-    this.shadeStates.TargetPosition = this.crestronRangeValueToPercentage(accessory.context.device.position);
+    platform.log.debug('Creating Shade:', device);
+    this.crestronId = device.id;
+    this.motors = device.motors || [{ id: device.id, invert: false }];
+    this.shadeStates.CurrentPosition = this.crestronRangeValueToPercentage(device.position);
+    this.shadeStates.TargetPosition = this.crestronRangeValueToPercentage(device.position);
 
     // set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Crestron Electronics')
-      .setCharacteristic(this.platform.Characteristic.Model, 'Default-Model')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, `Crestron-${this.crestronId}`);
+    this.platform.setAccessoryInformation(accessory, device);
 
+    // a shade can be shown as a Door or Window with a device override, they all share the position characteristics
+    const supportedServices: OverrideService[] = ['WindowCovering', 'Door', 'Window'];
+    const serviceName = this.platform.deviceOverrides.serviceFor(this.crestronId, supportedServices);
 
-    this.service = this.accessory.getService(this.platform.Service.WindowCovering)
-          || this.accessory.addService(this.platform.Service.WindowCovering);
+    this.service = this.platform.deviceService(
+      accessory,
+      device,
+      this.platform.Service[serviceName],
+      supportedServices.map(name => this.platform.Service[name]),
+    );
 
-    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.name);
+    this.platform.nameService(accessory, this.service, device);
 
     this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition)
       .onGet(this.getShadeCurrentPosition.bind(this));
@@ -45,50 +61,153 @@ export class CrestronHomeShade implements CrestronAccessory {
       .onSet(this.setShadeTargetPosition.bind(this));
     this.service.getCharacteristic(this.platform.Characteristic.PositionState)
       .onGet(this.getShadePositionState.bind(this));
+    this.service.getCharacteristic(this.platform.Characteristic.HoldPosition)
+      .onSet(this.setShadeHoldPosition.bind(this));
+    this.configureTilt();
+
+    // the travel time learned from previous movements is kept in the accessory context
+    this.motion = new ShadeMotionTracker(
+      platform.log,
+      device.name,
+      this.shadeStates.CurrentPosition,
+      accessory.context.shadeTravelTimes?.[this.crestronId] ?? platform.shadeMotion.travelTime ?? 30,
+      platform.shadeMotion,
+      {
+        readPosition: this.readShadePosition.bind(this),
+        onChange: this.motionChanged.bind(this),
+        onTravelTimeLearned: travelTime => {
+          accessory.context.shadeTravelTimes = { ...accessory.context.shadeTravelTimes, [this.crestronId]: travelTime };
+          platform.api.updatePlatformAccessories([accessory]);
+        },
+      },
+    );
   }
 
   public updateState(device: CrestronDevice): void {
     const position = this.crestronRangeValueToPercentage(device.position);
-    this.platform.log.debug('Updating shade position:', this.accessory.displayName, position);
-    this.shadeStates.CurrentPosition = position;
-    if(this.shadeStates.PositionState === this.platform.Characteristic.PositionState.STOPPED){
-      this.shadeStates.TargetPosition = position;
+    this.platform.log.debug('Updating shade position:', this.device.name, position);
+    this.motion.observe(position);
+
+    if (this.tiltCharacteristics && device.tilt !== undefined) {
+      this.tiltStates.Current = this.tiltStates.Target = this.crestronTiltToAngle(device.tilt);
+      this.service.getCharacteristic(this.tiltCharacteristics.current).updateValue(this.tiltStates.Current);
+      this.service.getCharacteristic(this.tiltCharacteristics.target).updateValue(this.tiltStates.Target);
+    }
+  }
+
+  private configureTilt() {
+    const Characteristic = this.platform.Characteristic;
+    const horizontal = { current: Characteristic.CurrentHorizontalTiltAngle, target: Characteristic.TargetHorizontalTiltAngle };
+    const vertical = { current: Characteristic.CurrentVerticalTiltAngle, target: Characteristic.TargetVerticalTiltAngle };
+
+    const detected = this.device.tilt === undefined ? 'none' : this.device.tiltType === 'vertical' ? 'vertical' : 'horizontal';
+    const tilt = this.platform.deviceOverrides.get(this.crestronId).tilt || detected;
+    this.tiltCharacteristics = tilt === 'horizontal' ? horizontal : tilt === 'vertical' ? vertical : undefined;
+
+    // tilt characteristics left in the cache from a different configuration
+    for (const characteristic of [horizontal.current, horizontal.target, vertical.current, vertical.target]) {
+      const used = characteristic === this.tiltCharacteristics?.current || characteristic === this.tiltCharacteristics?.target;
+      if (!used && this.service.testCharacteristic(characteristic)) {
+        this.service.removeCharacteristic(this.service.getCharacteristic(characteristic));
+      }
+    }
+
+    if (!this.tiltCharacteristics) {
+      return;
     }
+
+    this.tiltStates.Current = this.tiltStates.Target = this.crestronTiltToAngle(this.device.tilt ?? 32768);
+    this.service.getCharacteristic(this.tiltCharacteristics.current)
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.tiltStates.Current;
+      });
+    this.service.getCharacteristic(this.tiltCharacteristics.target)
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.tiltStates.Target;
+      })
+      .onSet(this.setShadeTilt.bind(this));
+  }
+
+  /**
+   * Send the position (percent) and/or tilt (Crestron range) to every motor of the shade
+   */
+  private async writeShade(position?: number, tilt?: number) {
+    await this.platform.crestronClient.setShadesState(this.motors.map(motor => {
+      const state: { id: number; position?: number; tilt?: number } = { id: motor.id };
+      if (position !== undefined) {
+        state.position = this.percentageToCrestronRangeValue(motor.invert ? 100 - position : position);
+      }
+      if (tilt !== undefined) {
+        state.tilt = tilt;
+      }
+      return state;
+    }));
+  }
+
+  public dispose() {
+    this.motion.dispose();
+  }
+
+  private motionChanged(state: ShadeMotionState) {
+    const PositionState = this.platform.Characteristic.PositionState;
+
+    this.shadeStates.CurrentPosition = state.current;
+    this.shadeStates.TargetPosition = state.target;
+    this.shadeStates.PositionState = state.motion === 'opening'
+      ? PositionState.INCREASING
+      : state.motion === 'closing' ? PositionState.DECREASING : PositionState.STOPPED;
+
     this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition).updateValue(this.shadeStates.CurrentPosition);
     this.service.getCharacteristic(this.platform.Characteristic.TargetPosition).updateValue(this.shadeStates.TargetPosition);
+    this.service.getCharacteristic(PositionState).updateValue(this.shadeStates.PositionState);
   }
 
   getShadeCurrentPosition(): CharacteristicValue{
-
-    this.platform.log.debug('Shade current position for', this.accessory.displayName, this.shadeStates.CurrentPosition);
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Shade current position for', this.device.name, this.shadeStates.CurrentPosition);
     return this.shadeStates.CurrentPosition;
   }
 
   getShadePositionState(): CharacteristicValue{
-
-    this.platform.log.debug('Get Shade position state called for', this.accessory.displayName);
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get Shade position state called for', this.device.name);
     return this.shadeStates.PositionState;
   }
 
   async setShadeTargetPosition(value: CharacteristicValue){
 
-    this.platform.log.debug('Set Shade target position called for: ', this.accessory.displayName, value);
-    this.shadeStates.TargetPosition = value as number;
+    this.platform.log.debug('Set Shade target position called for: ', this.device.name, value);
+
+    await this.writeShade(value as number);
+    this.motion.moveTo(value as number);
+  }
+
+  async setShadeTilt(value: CharacteristicValue){
+    this.platform.log.debug('Set Shade tilt called for: ', this.device.name, value);
 
-    this.platform.crestronClient.setShadesState(
-      [{id: this.crestronId, position: this.percentageToCrestronRangeValue(value as number)}]);
+    await this.writeShade(undefined, this.angleToCrestronTilt(value as number));
+    this.tiltStates.Current = this.tiltStates.Target = value as number;
+    this.service.getCharacteristic(this.tiltCharacteristics!.current).updateValue(this.tiltStates.Current);
+  }
 
-    if(this.shadeStates.CurrentPosition > this.shadeStates.TargetPosition){
-      this.shadeStates.PositionState = this.platform.Characteristic.PositionState.DECREASING;
-    } else{
-      this.shadeStates.PositionState = this.platform.Characteristic.PositionState.INCREASING;
+  /**
+   * Crestron has no stop command, a shade is stopped by sending it to where it is now
+   */
+  async setShadeHoldPosition(value: CharacteristicValue){
+    if (!value) {
+      return;
     }
-    this.activeInterval = setInterval(this.updateShadePositions.bind(this), 10 * 1000);
+
+    const position = this.motion.hold();
+    this.platform.log.debug('Hold Shade position called for: ', this.device.name, position);
+    await this.writeShade(position);
   }
 
   getShadeTargetPosition(): CharacteristicValue{
-
-    this.platform.log.debug('Get Shade targert position called for', this.accessory.displayName);
+    this.platform.assertReachable(this.crestronId);
+    this.platform.log.debug('Get Shade targert position called for', this.device.name);
     return this.shadeStates.TargetPosition;
   }
 
@@ -106,20 +225,27 @@ export class CrestronHomeShade implements CrestronAccessory {
     return Math.round((65535 * value) / 100);
   }
 
-  async updateShadePositions(){
-    this.platform.log.debug('Updating shade position status');
-    const currentState = await this.platform.crestronClient.getShadeState(this.crestronId);
-    this.shadeStates.CurrentPosition = this.crestronRangeValueToPercentage(currentState.position);
+  /**
+   * Tilt angles go from -90° to 90°, Crestron uses the same 0-65535 range as for positions
+   */
+  crestronTiltToAngle(value: number): number{
+    return Math.round((value / 65535) * 180 - 90);
+  }
 
-    // this.service.updateCharacteristic(this.platform.Characteristic.CurrentPosition, this.shadeStates.CurrentPosition);
-    this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition).updateValue(this.shadeStates.CurrentPosition);
-    this.platform.log.debug('Updating shade position status to:', this.shadeStates.CurrentPosition);
+  angleToCrestronTilt(value: number): number{
+    return Math.round(((value + 90) / 180) * 65535);
+  }
 
-    if(this.shadeStates.TargetPosition === this.shadeStates.CurrentPosition){
-      this.platform.log.debug('Target position achieved, Stopping interval', this.activeInterval);
-      this.shadeStates.PositionState = this.platform.Characteristic.PositionState.STOPPED;
-      clearInterval(this.activeInterval);
-    }
+  async readShadePosition(): Promise<number>{
+    const positions = await Promise.all(this.motors.map(async motor => {
+      const currentState = await this.platform.crestronClient.getShadeState(motor.id);
+      if (!currentState) {
+        throw new Error('No shade state returned');
+      }
+      const position = this.crestronRangeValueToPercentage(currentState.position);
+      return motor.invert ? 100 - position : position;
+    }));
+    return Math.round(positions.reduce((sum, position) => sum + position, 0) / positions.length);
   }
 }
 
@@ -0,0 +1,138 @@
+import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { CrestronDevice } from './crestronClient';
+import { ShadeGroup, aggregatePosition } from './shadeGroups';
+
+import { CrestronHomePlatform } from './platform';
+
+/**
+ * A virtual WindowCovering moving every shade of a group (or room) with one batched command.
+ * Its position is aggregated from the positions of the member shades, updated whenever one of them changes.
+ */
+export class CrestronHomeShadeGroup {
+  private service: Service;
+
+  // latest state of every member, by Crestron id
+  private members = new Map<number, CrestronDevice>();
+
+  private shadeStates = {
+    CurrentPosition: 0,
+    TargetPosition: 0,
+    PositionState: this.platform.Characteristic.PositionState.STOPPED,
+  };
+
+  private moveTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly platform: CrestronHomePlatform,
+    public readonly accessory: PlatformAccessory,
+    private readonly group: ShadeGroup,
+  ) {
+
+    platform.log.debug('Creating Shade group:', group.name, group.members.map(member => member.id));
+    group.members.forEach(member => this.members.set(member.id, member));
+    this.shadeStates.CurrentPosition = this.shadeStates.TargetPosition = this.aggregatedPosition();
+
+    accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Crestron Electronics')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Shade Group')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `Crestron-Shades-${group.key}`);
+
+    this.service = this.accessory.getService(this.platform.Service.WindowCovering)
+      || this.accessory.addService(this.platform.Service.WindowCovering);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, group.name);
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition)
+      .onGet(() => {
+        this.assertReachable();
+        return this.shadeStates.CurrentPosition;
+      });
+    this.service.getCharacteristic(this.platform.Characteristic.TargetPosition)
+      .onGet(() => {
+        this.assertReachable();
+        return this.shadeStates.TargetPosition;
+      })
+      .onSet(this.setGroupTargetPosition.bind(this));
+    this.service.getCharacteristic(this.platform.Characteristic.PositionState)
+      .onGet(() => {
+        this.assertReachable();
+        return this.shadeStates.PositionState;
+      });
+  }
+
+  /**
+   * Called with the new state of a member shade
+   */
+  public updateMember(device: CrestronDevice) {
+    if (!this.members.has(device.id)) {
+      return;
+    }
+    this.members.set(device.id, device);
+    this.shadeStates.CurrentPosition = this.aggregatedPosition();
+    this.platform.log.debug('Updating shade group position:', this.group.name, this.shadeStates.CurrentPosition);
+
+    const tolerance = this.platform.shadeMotion.tolerance ?? 2;
+    if (this.moveTimer && Math.abs(this.shadeStates.CurrentPosition - this.shadeStates.TargetPosition) <= tolerance) {
+      this.stopped(this.shadeStates.TargetPosition);
+      return;
+    }
+    if (!this.moveTimer) {
+      this.shadeStates.TargetPosition = this.shadeStates.CurrentPosition;
+      this.service.getCharacteristic(this.platform.Characteristic.TargetPosition).updateValue(this.shadeStates.TargetPosition);
+    }
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition).updateValue(this.shadeStates.CurrentPosition);
+  }
+
+  public dispose() {
+    clearTimeout(this.moveTimer);
+    this.moveTimer = undefined;
+  }
+
+  async setGroupTargetPosition(value: CharacteristicValue) {
+    const target = value as number;
+    this.platform.log.debug('Set Shade group target position called for: ', this.group.name, target);
+
+    // one batched write with every motor of every member
+    await this.platform.crestronClient.setShadesState([...this.members.values()].flatMap(member =>
+      (member.motors || [{ id: member.id, invert: false }]).map(motor => ({
+        id: motor.id,
+        position: Math.round(65535 * (motor.invert ? 100 - target : target) / 100),
+      }))));
+
+    const PositionState = this.platform.Characteristic.PositionState;
+    this.shadeStates.TargetPosition = target;
+    this.shadeStates.PositionState = target > this.shadeStates.CurrentPosition
+      ? PositionState.INCREASING
+      : target < this.shadeStates.CurrentPosition ? PositionState.DECREASING : PositionState.STOPPED;
+    this.service.getCharacteristic(PositionState).updateValue(this.shadeStates.PositionState);
+
+    // members that don't report arriving (stopped at a keypad, or stuck) don't keep the group moving forever
+    const { travelTime = 30, timeout = 60 } = this.platform.shadeMotion;
+    clearTimeout(this.moveTimer);
+    this.moveTimer = setTimeout(() => this.stopped(this.shadeStates.CurrentPosition), (travelTime + timeout) * 1000);
+  }
+
+  private stopped(position: number) {
+    this.dispose();
+    this.shadeStates.CurrentPosition = this.shadeStates.TargetPosition = position;
+    this.shadeStates.PositionState = this.platform.Characteristic.PositionState.STOPPED;
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition).updateValue(this.shadeStates.CurrentPosition);
+    this.service.getCharacteristic(this.platform.Characteristic.TargetPosition).updateValue(this.shadeStates.TargetPosition);
+    this.service.getCharacteristic(this.platform.Characteristic.PositionState).updateValue(this.shadeStates.PositionState);
+  }
+
+  private aggregatedPosition(): number {
+    const positions = [...this.members.values()].map(member => Math.round((member.position / 65535) * 100));
+    return aggregatePosition(positions, this.group.aggregate);
+  }
+
+  /**
+   * A group is only "Not Responding" when none of its shades can be reached
+   */
+  private assertReachable() {
+    const [first, ...others] = [...this.members.keys()];
+    if (!others.some(id => this.platform.isReachable(id))) {
+      this.platform.assertReachable(first);
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { CrestronDevice } from './crestronClient';
+import { RunningState, inferRunningState, parseRunningState } from './runningState';
+import { TemperatureUnit, Thresholds, applyDeadband, fromCelsius, parseTemperatureUnits, toCelsius } from './temperature';
 
 import { CrestronHomePlatform, CrestronAccessory } from './platform';
 
@@ -9,6 +11,9 @@ import { CrestronHomePlatform, CrestronAccessory } from './platform';
  */
 export class CrestronHomeThermostat implements CrestronAccessory {
   private service: Service;
+  // linked services, only for thermostats that support them
+  private fanService?: Service;
+  private scheduleService?: Service;
 
   private thermostatStates = {
     CurrentTemperature: 20,
@@ -16,8 +21,25 @@ export class CrestronHomeThermostat implements CrestronAccessory {
     CurrentHeatingCoolingState: 0, // OFF
     TargetHeatingCoolingState: 0, // OFF
     TemperatureDisplayUnits: 0, // Celsius
+    // Heat and Cool setpoints, used together in Auto mode
+    HeatingThresholdTemperature: 20,
+    CoolingThresholdTemperature: 24,
+    FanMode: 'AUTO' as 'AUTO' | 'ON',
+    SchedulerState: 'run' as 'run' | 'hold',
   };
 
+  // minimum distance between the heat and cool setpoints, in Celsius
+  private readonly deadband: number;
+  private readonly temperatureRange: { min: number; max: number };
+  // unit of the temperatures the thermostat reports and takes
+  private units: TemperatureUnit;
+  // what the equipment is doing, reported by the thermostat or inferred from the temperature with this hysteresis (Celsius)
+  private runningState: RunningState = 'idle';
+  private reportedRunningState?: string;
+  private readonly hysteresis: number;
+  // thermostats without an Auto mode have no thresholds
+  private hasAuto = false;
+
   public crestronId = 0;
 
   constructor(
@@ -39,26 +61,30 @@ export class CrestronHomeThermostat implements CrestronAccessory {
 
     this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.context.device.name);
 
-    // Initialize states from device context - convert from DeciFahrenheit to Celsius for HomeKit
-    this.thermostatStates.CurrentTemperature = this.deciFahrenheitToCelsius(accessory.context.device.currentTemperature || 720);
+    const device: CrestronDevice = accessory.context.device;
+    const override = this.platform.deviceOverrides.get(this.crestronId);
+    this.deadband = override.deadband ?? 1.5;
+    this.hysteresis = override.hysteresis ?? 0.5;
+    this.temperatureRange = { min: override.minTemperature ?? 10, max: override.maxTemperature ?? 38 };
+    this.units = parseTemperatureUnits(device.temperatureUnits);
 
-    // Get target temperature from currentSetPoint array (Cool or Heat)
-    const coolSetPoint = accessory.context.device.currentSetPoint?.find(sp => sp.type.toLowerCase() === 'cool');
-    const heatSetPoint = accessory.context.device.currentSetPoint?.find(sp => sp.type.toLowerCase() === 'heat');
-    this.thermostatStates.TargetTemperature = this.deciFahrenheitToCelsius(
-      coolSetPoint?.temperature || heatSetPoint?.temperature || 720,
-    );
+    // Initialize states from device context - convert from the thermostat's unit to Celsius for HomeKit
+    this.thermostatStates.CurrentTemperature = device.currentTemperature !== undefined
+      ? toCelsius(device.currentTemperature, this.units)
+      : 22.2;
 
     // Convert mode strings to HomeKit values
-    this.thermostatStates.CurrentHeatingCoolingState = this.crestronModeToHomeKit(
-      accessory.context.device.currentMode || 'Off', true,
-    );
-    this.thermostatStates.TargetHeatingCoolingState = this.crestronModeToHomeKit(
-      accessory.context.device.currentMode || 'Off', false,
-    );
+    this.thermostatStates.TargetHeatingCoolingState = this.crestronModeToHomeKit(device.currentMode || 'Off');
+
+    // Heat and Cool setpoints from the currentSetPoint array, the target temperature follows the mode
+    this.readSetPoints(device);
+    this.readRunningState(device);
 
-    // Temperature units: 0 = Celsius, 1 = Fahrenheit (HomeKit needs Celsius internally)
-    this.thermostatStates.TemperatureDisplayUnits = 1; // Display in Fahrenheit but send Celsius to HomeKit
+    // Temperature units: 0 = Celsius, 1 = Fahrenheit (HomeKit needs Celsius internally), those of the thermostat unless overridden
+    const displayUnits = override.displayUnits || this.units.scale;
+    this.thermostatStates.TemperatureDisplayUnits = displayUnits === 'celsius'
+      ? this.platform.Characteristic.TemperatureDisplayUnits.CELSIUS
+      : this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT;
 
     // register handlers for the Current Temperature Characteristic (read-only)
     this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
@@ -83,50 +109,149 @@ export class CrestronHomeThermostat implements CrestronAccessory {
       .onSet(this.setTemperatureDisplayUnits.bind(this))
       .onGet(this.getTemperatureDisplayUnits.bind(this));
 
-    // Set supported modes - OFF, HEAT, COOL, AUTO
+    // Set supported modes - those of availableSystemModes (e.g. no Cool for a heat-only system), all of them when not reported
+    const validModes = this.supportedModes(device.availableSystemModes);
     this.service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
-      .setProps({
-        validValues: [
-          this.platform.Characteristic.TargetHeatingCoolingState.OFF,
-          this.platform.Characteristic.TargetHeatingCoolingState.HEAT,
-          this.platform.Characteristic.TargetHeatingCoolingState.COOL,
-          this.platform.Characteristic.TargetHeatingCoolingState.AUTO,
-        ],
+      .setProps({ validValues: validModes });
+
+    // Set temperature range (in Celsius for HomeKit), can be changed with a device override.
+    // Whole-degree Celsius thermostats can't take half degrees.
+    const temperatureProps = {
+      minValue: this.temperatureRange.min,
+      maxValue: this.temperatureRange.max,
+      minStep: override.temperatureStep ?? (this.units.scale === 'celsius' && this.units.perDegree === 1 ? 1 : 0.5),
+    };
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .setProps(temperatureProps);
+
+    this.configureThresholds(validModes.includes(this.platform.Characteristic.TargetHeatingCoolingState.AUTO), temperatureProps);
+    this.fanService = this.configureFan(device);
+    this.scheduleService = this.configureSchedule(device);
+  }
+
+  /**
+   * The Auto mode thresholds, only for thermostats that have an Auto mode
+   */
+  private configureThresholds(hasAuto: boolean, temperatureProps: { minValue: number; maxValue: number; minStep: number }) {
+    this.hasAuto = hasAuto;
+    if (!hasAuto) {
+      for (const threshold of [
+        this.platform.Characteristic.HeatingThresholdTemperature,
+        this.platform.Characteristic.CoolingThresholdTemperature,
+      ]) {
+        if (this.service.testCharacteristic(threshold)) {
+          this.service.removeCharacteristic(this.service.getCharacteristic(threshold));
+        }
+      }
+      return;
+    }
+
+    // register handlers for the Auto mode thresholds
+    this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)
+      .setProps(temperatureProps)
+      .onSet(value => this.setThreshold('heat', value))
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.thermostatStates.HeatingThresholdTemperature;
       });
+    this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)
+      .setProps(temperatureProps)
+      .onSet(value => this.setThreshold('cool', value))
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.thermostatStates.CoolingThresholdTemperature;
+      });
+  }
 
-    // Set temperature range (in Celsius for HomeKit, but will display as Fahrenheit)
-    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
-      .setProps({
-        minValue: 10,
-        maxValue: 32,
-        minStep: 0.5,
+  /**
+   * A linked Fanv2 for thermostats with both fan modes: Active is the ON fan mode (the fan runs continuously),
+   * inactive is AUTO (it only runs while heating or cooling). TargetFanState MANUAL/AUTO selects the same modes.
+   */
+  private configureFan(device: CrestronDevice): Service | undefined {
+    const fanModes = (device.availableFanModes || ['Auto', 'On']).map(mode => mode.toUpperCase());
+    const name = `${device.name} Fan`;
+    const cached = this.accessory.getServiceById(this.platform.Service.Fanv2, `${this.crestronId}-fan`);
+
+    if (!fanModes.includes('AUTO') || !fanModes.includes('ON')) {
+      if (cached) {
+        this.accessory.removeService(cached);
+      }
+      return undefined;
+    }
+
+    const fanService = cached || this.accessory.addService(this.platform.Service.Fanv2, name, `${this.crestronId}-fan`);
+    if (!this.service.linkedServices.includes(fanService)) {
+      this.service.addLinkedService(fanService);
+    }
+    this.platform.nameService(this.accessory, fanService, { ...device, name });
+    this.thermostatStates.FanMode = device.currentFanMode?.toUpperCase() === 'ON' ? 'ON' : 'AUTO';
+
+    const { Active, TargetFanState } = this.platform.Characteristic;
+    fanService.getCharacteristic(Active)
+      .onSet(value => this.setFanMode(value === Active.ACTIVE ? 'ON' : 'AUTO'))
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.thermostatStates.FanMode === 'ON' ? Active.ACTIVE : Active.INACTIVE;
+      });
+    fanService.getCharacteristic(TargetFanState)
+      .onSet(value => this.setFanMode(value === TargetFanState.MANUAL ? 'ON' : 'AUTO'))
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.thermostatStates.FanMode === 'ON' ? TargetFanState.MANUAL : TargetFanState.AUTO;
+      });
+
+    return fanService;
+  }
+
+  /**
+   * A linked "Follow Schedule" switch for thermostats with a scheduler: on runs the schedule, off holds the current setpoints
+   */
+  private configureSchedule(device: CrestronDevice): Service | undefined {
+    const name = `${device.name} Follow Schedule`;
+    const cached = this.accessory.getServiceById(this.platform.Service.Switch, `${this.crestronId}-schedule`);
+
+    if (device.schedulerState === undefined) {
+      if (cached) {
+        this.accessory.removeService(cached);
+      }
+      return undefined;
+    }
+
+    const scheduleService = cached || this.accessory.addService(this.platform.Service.Switch, name, `${this.crestronId}-schedule`);
+    if (!this.service.linkedServices.includes(scheduleService)) {
+      this.service.addLinkedService(scheduleService);
+    }
+    this.platform.nameService(this.accessory, scheduleService, { ...device, name });
+    this.thermostatStates.SchedulerState = device.schedulerState.toLowerCase() === 'hold' ? 'hold' : 'run';
+
+    scheduleService.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setFollowSchedule.bind(this))
+      .onGet(() => {
+        this.platform.assertReachable(this.crestronId);
+        return this.thermostatStates.SchedulerState === 'run';
       });
+
+    return scheduleService;
   }
 
   public updateState(device: CrestronDevice): void {
     this.platform.log.debug('Updating Thermostat state:', this.accessory.displayName, device);
+    this.units = parseTemperatureUnits(device.temperatureUnits);
 
     // Update current temperature (convert from DeciFahrenheit to Celsius for HomeKit)
     if (device.currentTemperature !== undefined) {
-      this.thermostatStates.CurrentTemperature = this.deciFahrenheitToCelsius(device.currentTemperature);
-    }
-
-    // Update target temperature from currentSetPoint
-    if (device.currentSetPoint && device.currentSetPoint.length > 0) {
-      const coolSetPoint = device.currentSetPoint.find(sp => sp.type.toLowerCase() === 'cool');
-      const heatSetPoint = device.currentSetPoint.find(sp => sp.type.toLowerCase() === 'heat');
-      const targetTemp = coolSetPoint?.temperature || heatSetPoint?.temperature;
-      if (targetTemp) {
-        this.thermostatStates.TargetTemperature = this.deciFahrenheitToCelsius(targetTemp);
-      }
+      this.thermostatStates.CurrentTemperature = toCelsius(device.currentTemperature, this.units);
     }
 
     // Update heating/cooling states
     if (device.currentMode) {
-      this.thermostatStates.CurrentHeatingCoolingState = this.crestronModeToHomeKit(device.currentMode, true);
-      this.thermostatStates.TargetHeatingCoolingState = this.crestronModeToHomeKit(device.currentMode, false);
+      this.thermostatStates.TargetHeatingCoolingState = this.crestronModeToHomeKit(device.currentMode);
     }
 
+    // Update setpoints and the target temperature of the (new) mode, then what the equipment does
+    this.readSetPoints(device);
+    this.readRunningState(device);
+
     // Update all HomeKit characteristics
     this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
       .updateValue(this.thermostatStates.CurrentTemperature);
@@ -138,12 +263,226 @@ export class CrestronHomeThermostat implements CrestronAccessory {
       .updateValue(this.thermostatStates.TargetHeatingCoolingState);
     this.service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
       .updateValue(this.thermostatStates.TemperatureDisplayUnits);
+    this.updateThresholds();
+
+    if (device.currentFanMode) {
+      this.thermostatStates.FanMode = device.currentFanMode.toUpperCase() === 'ON' ? 'ON' : 'AUTO';
+      this.updateFan();
+    }
+    if (device.schedulerState) {
+      this.thermostatStates.SchedulerState = device.schedulerState.toLowerCase() === 'hold' ? 'hold' : 'run';
+      this.scheduleService?.getCharacteristic(this.platform.Characteristic.On)
+        .updateValue(this.thermostatStates.SchedulerState === 'run');
+    }
+  }
+
+  private updateFan() {
+    const { Active, TargetFanState } = this.platform.Characteristic;
+    const on = this.thermostatStates.FanMode === 'ON';
+    this.fanService?.getCharacteristic(Active).updateValue(on ? Active.ACTIVE : Active.INACTIVE);
+    this.fanService?.getCharacteristic(TargetFanState).updateValue(on ? TargetFanState.MANUAL : TargetFanState.AUTO);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit to the fan, Active and TargetFanState both select the fan mode
+   */
+  async setFanMode(mode: 'AUTO' | 'ON') {
+    try {
+      await this.platform.crestronClient.setThermostatFanMode({
+        id: this.crestronId,
+        mode,
+      });
+    } catch (error) {
+      this.platform.log.error('Failed to set the fan mode of', this.accessory.displayName, error);
+      // show the fan mode it still has
+      this.updateFan();
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+    this.thermostatStates.FanMode = mode;
+
+    // keep the other characteristic in line
+    this.updateFan();
+    this.platform.log.debug('Set Fan Mode ->', mode);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit to the "Follow Schedule" switch
+   */
+  async setFollowSchedule(value: CharacteristicValue) {
+    const schedulerState = value ? 'run' : 'hold';
+    try {
+      await this.platform.crestronClient.setThermostatSchedulerState({
+        id: this.crestronId,
+        schedulerState,
+      });
+    } catch (error) {
+      this.platform.log.error('Failed to set the scheduler state of', this.accessory.displayName, error);
+      // show the scheduler state it still has
+      this.scheduleService?.getCharacteristic(this.platform.Characteristic.On)
+        .updateValue(this.thermostatStates.SchedulerState === 'run');
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+    this.thermostatStates.SchedulerState = schedulerState;
+
+    this.platform.log.debug('Set Scheduler State ->', this.thermostatStates.SchedulerState);
+  }
+
+  /**
+   * HomeKit modes of the Crestron system modes
+   */
+  private supportedModes(availableSystemModes?: string[]): number[] {
+    const TargetHeatingCoolingState = this.platform.Characteristic.TargetHeatingCoolingState;
+    const allModes = [
+      TargetHeatingCoolingState.OFF,
+      TargetHeatingCoolingState.HEAT,
+      TargetHeatingCoolingState.COOL,
+      TargetHeatingCoolingState.AUTO,
+    ];
+
+    const modes = allModes.filter(mode => availableSystemModes?.some(
+      available => available.toUpperCase() === this.homeKitModeToCrestron(mode),
+    ));
+    if (modes.length === 0) {
+      return allModes;
+    }
+    this.platform.log.debug('Thermostat modes:', this.accessory.displayName, availableSystemModes);
+    return modes;
+  }
+
+  /**
+   * Take the Heat and Cool setpoints of the device, and derive the target temperature from them
+   */
+  private readSetPoints(device: CrestronDevice) {
+    const setPoint = (type: string) => device.currentSetPoint?.find(sp => sp.type.toLowerCase() === type)?.temperature;
+    const heat = setPoint('heat');
+    const cool = setPoint('cool');
+
+    if (heat) {
+      this.thermostatStates.HeatingThresholdTemperature = toCelsius(heat, this.units);
+    }
+    if (cool) {
+      this.thermostatStates.CoolingThresholdTemperature = toCelsius(cool, this.units);
+    }
+    if (heat || cool) {
+      this.thermostatStates.TargetTemperature = this.targetTemperature();
+    }
+  }
+
+  /**
+   * The current heating/cooling state follows the running state the thermostat reports. Thermostats that don't report one
+   * are heating or cooling when the temperature is past the setpoint of their mode (by the hysteresis).
+   */
+  private readRunningState(device: CrestronDevice) {
+    if (device.runningState !== this.reportedRunningState) {
+      this.platform.log.debug('Thermostat running state:', this.accessory.displayName, device.runningState);
+      this.reportedRunningState = device.runningState;
+    }
+
+    this.runningState = parseRunningState(device.runningState) ?? inferRunningState({
+      mode: this.homeKitModeToCrestron(this.thermostatStates.TargetHeatingCoolingState),
+      temperature: this.thermostatStates.CurrentTemperature,
+      heat: this.thermostatStates.HeatingThresholdTemperature,
+      cool: this.thermostatStates.CoolingThresholdTemperature,
+      hysteresis: this.hysteresis,
+      previous: this.runningState,
+    });
+
+    const CurrentHeatingCoolingState = this.platform.Characteristic.CurrentHeatingCoolingState;
+    this.thermostatStates.CurrentHeatingCoolingState = this.runningState === 'heating'
+      ? CurrentHeatingCoolingState.HEAT
+      : this.runningState === 'cooling' ? CurrentHeatingCoolingState.COOL : CurrentHeatingCoolingState.OFF;
+  }
+
+  /**
+   * The target temperature shown for the current mode: the heat or cool setpoint, in Auto (and Off)
+   * the middle of both, as HomeKit shows the thresholds instead
+   */
+  private targetTemperature(): number {
+    const TargetHeatingCoolingState = this.platform.Characteristic.TargetHeatingCoolingState;
+    const { HeatingThresholdTemperature: heat, CoolingThresholdTemperature: cool } = this.thermostatStates;
+
+    switch (this.thermostatStates.TargetHeatingCoolingState) {
+      case TargetHeatingCoolingState.HEAT:
+        return heat;
+      case TargetHeatingCoolingState.COOL:
+        return cool;
+      default:
+        return Math.round((heat + cool) / 2 * 10) / 10;
+    }
+  }
+
+  private updateThresholds() {
+    // getCharacteristic would add the removed thresholds back
+    if (!this.hasAuto) {
+      return;
+    }
+    this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)
+      .updateValue(this.thermostatStates.HeatingThresholdTemperature);
+    this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)
+      .updateValue(this.thermostatStates.CoolingThresholdTemperature);
+  }
+
+  /**
+   * Send the Heat and Cool setpoints in one request
+   */
+  private async writeThresholds(thresholds: Thresholds) {
+    try {
+      await this.platform.crestronClient.setThermostatSetPoint({
+        id: this.crestronId,
+        setpoints: [
+          { type: 'Heat', temperature: fromCelsius(thresholds.heat, this.units) },
+          { type: 'Cool', temperature: fromCelsius(thresholds.cool, this.units) },
+        ],
+      });
+    } catch (error) {
+      throw this.writeFailed('setpoints', error);
+    }
+    this.thermostatStates.HeatingThresholdTemperature = thresholds.heat;
+    this.thermostatStates.CoolingThresholdTemperature = thresholds.cool;
+    this.updateThresholds();
+  }
+
+  /**
+   * Show the targets the thermostat still has after a write failed, returns the error to answer HomeKit with
+   */
+  private writeFailed(setting: string, error: unknown) {
+    this.platform.log.error(`Failed to set the ${setting} of`, this.accessory.displayName, error);
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .updateValue(this.thermostatStates.TargetTemperature);
+    this.service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
+      .updateValue(this.thermostatStates.TargetHeatingCoolingState);
+    this.updateThresholds();
+    return new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit to set the "Heating/Cooling Threshold Temperature" characteristics,
+   * the other setpoint moves along when the deadband between them would be violated
+   */
+  async setThreshold(changed: keyof Thresholds, value: CharacteristicValue) {
+    const thresholds = applyDeadband(
+      {
+        heat: changed === 'heat' ? value as number : this.thermostatStates.HeatingThresholdTemperature,
+        cool: changed === 'cool' ? value as number : this.thermostatStates.CoolingThresholdTemperature,
+      },
+      changed,
+      this.deadband,
+      this.temperatureRange,
+    );
+
+    this.platform.log.debug('Set Threshold Temperatures ->', thresholds);
+    await this.writeThresholds(thresholds);
+
+    this.thermostatStates.TargetTemperature = this.targetTemperature();
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .updateValue(this.thermostatStates.TargetTemperature);
   }
 
   /**
    * Handle requests to get the current value of the "Current Temperature" characteristic
    */
   getCurrentTemperature(): CharacteristicValue {
+    this.platform.assertReachable(this.crestronId);
     this.platform.log.debug('Get Current Temperature for:', this.accessory.displayName, this.thermostatStates.CurrentTemperature);
     return this.thermostatStates.CurrentTemperature;
   }
@@ -152,6 +491,7 @@ export class CrestronHomeThermostat implements CrestronAccessory {
    * Handle requests to get the current value of the "Target Temperature" characteristic
    */
   getTargetTemperature(): CharacteristicValue {
+    this.platform.assertReachable(this.crestronId);
     this.platform.log.debug('Get Target Temperature for:', this.accessory.displayName, this.thermostatStates.TargetTemperature);
     return this.thermostatStates.TargetTemperature;
   }
@@ -160,35 +500,47 @@ export class CrestronHomeThermostat implements CrestronAccessory {
    * Handle "SET" requests from HomeKit to set the "Target Temperature" characteristic
    */
   async setTargetTemperature(value: CharacteristicValue) {
-    this.thermostatStates.TargetTemperature = value as number;
+    const target = value as number;
+    const { HeatingThresholdTemperature: heat, CoolingThresholdTemperature: cool } = this.thermostatStates;
 
-    // Convert Celsius (from HomeKit) to DeciFahrenheit for Crestron API
-    const tempInDeciFahrenheit = this.celsiusToDeciFahrenheit(this.thermostatStates.TargetTemperature);
-
-    // Determine setpoint type based on current mode
+    // Heat and Cool only set their own setpoint - a heat or cool only system has no other one.
+    // Auto (and Off, on systems with Auto) move both, keeping their distance, centered on the target.
+    // Off on the other systems has no setpoint to write, the target is kept until a mode is picked
     const currentMode = this.thermostatStates.TargetHeatingCoolingState;
-    let setPointType = 'Cool';
-    if (currentMode === this.platform.Characteristic.TargetHeatingCoolingState.HEAT) {
-      setPointType = 'Heat';
-    } else if (currentMode === this.platform.Characteristic.TargetHeatingCoolingState.AUTO) {
-      setPointType = 'Auto';
+    const TargetHeatingCoolingState = this.platform.Characteristic.TargetHeatingCoolingState;
+    if (currentMode === TargetHeatingCoolingState.HEAT || currentMode === TargetHeatingCoolingState.COOL) {
+      const heating = currentMode === TargetHeatingCoolingState.HEAT;
+      try {
+        await this.platform.crestronClient.setThermostatSetPoint({
+          id: this.crestronId,
+          setpoints: [{ type: heating ? 'Heat' : 'Cool', temperature: fromCelsius(target, this.units) }],
+        });
+      } catch (error) {
+        throw this.writeFailed('setpoint', error);
+      }
+      if (heating) {
+        this.thermostatStates.HeatingThresholdTemperature = target;
+      } else {
+        this.thermostatStates.CoolingThresholdTemperature = target;
+      }
+      this.updateThresholds();
+    } else if (this.hasAuto) {
+      const halfSpan = Math.max(cool - heat, this.deadband) / 2;
+      await this.writeThresholds({
+        heat: Math.round((target - halfSpan) * 10) / 10,
+        cool: Math.round((target + halfSpan) * 10) / 10,
+      });
     }
+    this.thermostatStates.TargetTemperature = target;
 
-    await this.platform.crestronClient.setThermostatSetPoint({
-      id: this.crestronId,
-      setpoints: [{
-        type: setPointType as 'Cool' | 'Heat' | 'Auto',
-        temperature: tempInDeciFahrenheit,
-      }],
-    });
-
-    this.platform.log.debug('Set Target Temperature ->', value, '(', tempInDeciFahrenheit, 'DeciFahrenheit)');
+    this.platform.log.debug('Set Target Temperature ->', value, '(', fromCelsius(target, this.units), this.units.scale, ')');
   }
 
   /**
    * Handle requests to get the current value of the "Current Heating Cooling State" characteristic
    */
   getCurrentHeatingCoolingState(): CharacteristicValue {
+    this.platform.assertReachable(this.crestronId);
     this.platform.log.debug(
       'Get Current Heating Cooling State for:',
       this.accessory.displayName,
@@ -201,6 +553,7 @@ export class CrestronHomeThermostat implements CrestronAccessory {
    * Handle requests to get the current value of the "Target Heating Cooling State" characteristic
    */
   getTargetHeatingCoolingState(): CharacteristicValue {
+    this.platform.assertReachable(this.crestronId);
     this.platform.log.debug(
       'Get Target Heating Cooling State for:',
       this.accessory.displayName,
@@ -213,15 +566,22 @@ export class CrestronHomeThermostat implements CrestronAccessory {
    * Handle "SET" requests from HomeKit to set the "Target Heating Cooling State" characteristic
    */
   async setTargetHeatingCoolingState(value: CharacteristicValue) {
-    this.thermostatStates.TargetHeatingCoolingState = value as number;
-
     // Convert HomeKit mode to Crestron mode
-    const crestronMode = this.homeKitModeToCrestron(this.thermostatStates.TargetHeatingCoolingState);
+    const crestronMode = this.homeKitModeToCrestron(value as number);
 
-    await this.platform.crestronClient.setThermostatMode({
-      id: this.crestronId,
-      mode: crestronMode,
-    });
+    try {
+      await this.platform.crestronClient.setThermostatMode({
+        id: this.crestronId,
+        mode: crestronMode,
+      });
+    } catch (error) {
+      throw this.writeFailed('mode', error);
+    }
+    this.thermostatStates.TargetHeatingCoolingState = value as number;
+
+    this.thermostatStates.TargetTemperature = this.targetTemperature();
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .updateValue(this.thermostatStates.TargetTemperature);
 
     this.platform.log.debug('Set Target Heating Cooling State ->', value, '(', crestronMode, ')');
   }
@@ -248,62 +608,21 @@ export class CrestronHomeThermostat implements CrestronAccessory {
     this.platform.log.debug('Set Temperature Display Units ->', value, '(display only)');
   }
 
-  /**
-   * Convert DeciFahrenheit (Crestron format) to Fahrenheit (HomeKit format)
-   */
-  private deciFahrenheitToFahrenheit(deciFahrenheit: number): number {
-    const fahrenheit = deciFahrenheit / 10;
-    return Math.round(fahrenheit * 10) / 10; // Round to 1 decimal place
-  }
-
-  /**
-   * Convert Fahrenheit (HomeKit format) to DeciFahrenheit (Crestron format)
-   */
-  private fahrenheitToDeciFahrenheit(fahrenheit: number): number {
-    return Math.round(fahrenheit * 10); // Convert to DeciFahrenheit
-  }
-
-  /**
-   * Convert DeciFahrenheit (Crestron format) to Celsius (HomeKit format)
-   * Keeping for compatibility if needed
-   */
-  private deciFahrenheitToCelsius(deciFahrenheit: number): number {
-    const fahrenheit = deciFahrenheit / 10;
-    const celsius = (fahrenheit - 32) * 5 / 9;
-    return Math.round(celsius * 10) / 10; // Round to 1 decimal place
-  }
-
-  /**
-   * Convert Celsius (HomeKit format) to DeciFahrenheit (Crestron format)
-   * Keeping for compatibility if needed
-   */
-  private celsiusToDeciFahrenheit(celsius: number): number {
-    const fahrenheit = (celsius * 9 / 5) + 32;
-    return Math.round(fahrenheit * 10); // Convert to DeciFahrenheit
-  }
-
   /**
    * Convert Crestron mode string to HomeKit mode number
    */
-  private crestronModeToHomeKit(mode: string, isCurrentState: boolean): number {
+  private crestronModeToHomeKit(mode: string): number {
     const upperMode = mode.toUpperCase();
     switch (upperMode) {
-      case 'OFF':
-        return this.platform.Characteristic.CurrentHeatingCoolingState.OFF;
       case 'HEAT':
-        return isCurrentState
-          ? this.platform.Characteristic.CurrentHeatingCoolingState.HEAT
-          : this.platform.Characteristic.TargetHeatingCoolingState.HEAT;
+        return this.platform.Characteristic.TargetHeatingCoolingState.HEAT;
       case 'COOL':
-        return isCurrentState
-          ? this.platform.Characteristic.CurrentHeatingCoolingState.COOL
-          : this.platform.Characteristic.TargetHeatingCoolingState.COOL;
+        return this.platform.Characteristic.TargetHeatingCoolingState.COOL;
       case 'AUTO':
-        return isCurrentState
-          ? this.platform.Characteristic.CurrentHeatingCoolingState.OFF // Auto doesn't exist for current state
-          : this.platform.Characteristic.TargetHeatingCoolingState.AUTO;
+        return this.platform.Characteristic.TargetHeatingCoolingState.AUTO;
+      case 'OFF':
       default:
-        return this.platform.Characteristic.CurrentHeatingCoolingState.OFF;
+        return this.platform.Characteristic.TargetHeatingCoolingState.OFF;
     }
   }
 
@@ -0,0 +1,140 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice, configType } from './crestronClient';
+
+/**
+ * Homebridge crashes when a single bridge exposes more than 149 accessories
+ */
+export const MAX_BRIDGE_ACCESSORIES = 149;
+
+export type SplitBy = 'room' | 'type' | 'device';
+
+/**
+ * Pins matching devices to a bridge, regardless of the split rule
+ */
+export interface BridgeRule {
+  bridge: number;
+  rooms?: string[];
+  types?: string[];
+  ids?: number[];
+}
+
+/**
+ * The `bridgeSplit` section of the config. Every platform instance (each running as its own child bridge)
+ * uses the same settings, except for `bridge` - the number of the share this instance exposes.
+ */
+export interface BridgeSplitConfig {
+  bridges?: number;
+  bridge?: number;
+  splitBy?: SplitBy;
+  rules?: BridgeRule[];
+}
+
+/**
+ * Assigns every Crestron device to one of several bridges.
+ * The assignment only depends on the device itself (a hash of its room, type or id) and the configured rules,
+ * so devices stay on the same bridge between restarts and when other devices are added or removed.
+ */
+export class BridgeAssigner {
+  public readonly bridges: number;
+  public readonly bridge: number;
+  public readonly splitBy: SplitBy;
+  private readonly rules: BridgeRule[];
+
+  constructor(
+    private readonly log: Logger,
+    config: BridgeSplitConfig = {},
+  ) {
+    this.bridges = Math.max(config.bridges || 1, 1);
+    this.bridge = Math.min(Math.max(config.bridge || 1, 1), this.bridges);
+    this.splitBy = config.splitBy || 'room';
+    this.rules = (config.rules || []).filter(rule => rule.bridge >= 1 && rule.bridge <= this.bridges);
+  }
+
+  public get enabled(): boolean {
+    return this.bridges > 1;
+  }
+
+  /**
+   * Returns the number (1-based) of the bridge that exposes the given device
+   */
+  public bridgeFor(device: CrestronDevice): number {
+    const rule = this.rules.find(rule =>
+      rule.ids?.includes(device.id) ||
+      rule.types?.includes(configType(device.type)) ||
+      rule.rooms?.some(room => room.toLowerCase() === device.roomName.toLowerCase()),
+    );
+    if (rule) {
+      return rule.bridge;
+    }
+
+    return (hash(this.splitKey(device)) % this.bridges) + 1;
+  }
+
+  /**
+   * Returns the devices exposed by this bridge
+   */
+  public localDevices(devices: CrestronDevice[]): CrestronDevice[] {
+    if (!this.enabled) {
+      return devices;
+    }
+    return devices.filter(device => this.bridgeFor(device) === this.bridge);
+  }
+
+  /**
+   * Log which bridge holds which accessories
+   */
+  public report(devices: CrestronDevice[]) {
+    const assigned = new Map<number, CrestronDevice[]>();
+    for (let bridge = 1; bridge <= this.bridges; bridge++) {
+      assigned.set(bridge, []);
+    }
+    for (const device of devices) {
+      assigned.get(this.bridgeFor(device))!.push(device);
+    }
+
+    const required = Math.ceil(devices.length / MAX_BRIDGE_ACCESSORIES);
+    if (required > this.bridges) {
+      this.log.warn(`Found ${devices.length} accessories, at least ${required} bridges are needed - see "bridgeSplit" in the README`);
+      this.log.warn(`Each bridge only exposes its first ${MAX_BRIDGE_ACCESSORIES} accessories, Homebridge will crash otherwise !!!`);
+    }
+
+    if (!this.enabled) {
+      return;
+    }
+
+    this.log.info(`Splitting ${devices.length} accessories by ${this.splitBy} across ${this.bridges} bridges:`);
+    for (const [bridge, bridgeDevices] of assigned) {
+      const marker = bridge === this.bridge ? ' (this bridge)' : '';
+      this.log.info(`- Bridge ${bridge}${marker}: ${bridgeDevices.length} accessories`);
+      this.log.debug(`Bridge ${bridge} accessories:`, bridgeDevices.map(device => device.name).join(', '));
+      if (bridgeDevices.length > MAX_BRIDGE_ACCESSORIES) {
+        this.log.warn(`Bridge ${bridge} has more than ${MAX_BRIDGE_ACCESSORIES} accessories and will be truncated, `
+          + 'add a bridge or a rule to move some of them');
+      }
+    }
+  }
+
+  private splitKey(device: CrestronDevice): string {
+    switch (this.splitBy) {
+      case 'type':
+        return configType(device.type);
+      case 'device':
+        return device.id.toString();
+      case 'room':
+      default:
+        return device.roomId.toString();
+    }
+  }
+}
+
+/**
+ * FNV-1a string hash, stable across Node versions and restarts
+ */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193) >>> 0;
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+import { CircadianLighting, sunTimes } from '../src/circadian';
+import { CrestronDevice } from '../src/crestronClient';
+import { Logger } from 'homebridge';
+
+const minutesOfDayUTC = (date: Date) => date.getUTCHours() * 60 + date.getUTCMinutes();
+
+describe('sunTimes', () => {
+  it('should calculate sunrise and sunset', () => {
+    // Amsterdam, midsummer: 03:18 and 20:06 UTC
+    const times = sunTimes(new Date(2024, 5, 21, 12), 52.37, 4.9)!;
+
+    expect(Math.abs(minutesOfDayUTC(times.sunrise) - (3 * 60 + 18))).toBeLessThanOrEqual(5);
+    expect(Math.abs(minutesOfDayUTC(times.sunset) - (20 * 60 + 6))).toBeLessThanOrEqual(5);
+  });
+
+  it('should return nothing during polar night', () => {
+    expect(sunTimes(new Date(2024, 11, 21, 12), 78.22, 15.65)).toBeUndefined();
+  });
+});
+
+describe('CircadianLighting', () => {
+  const log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  const hallway = {
+    name: 'Night',
+    rooms: ['Hallway'],
+    points: [
+      { time: '08:00', level: 100 },
+      { time: '22:00', level: 100 },
+      { time: '23:00', level: 30 },
+      { time: '06:00', level: 30 },
+    ],
+  };
+
+  it('should interpolate between points and wrap around midnight', () => {
+    const circadian = new CircadianLighting(log, { curves: [hallway] });
+
+    expect(circadian.levelAt(hallway, new Date(2024, 0, 1, 12, 0))).toBe(100);
+    expect(circadian.levelAt(hallway, new Date(2024, 0, 1, 22, 30))).toBe(65);
+    expect(circadian.levelAt(hallway, new Date(2024, 0, 1, 2, 0))).toBe(30);
+    expect(circadian.levelAt(hallway, new Date(2024, 0, 1, 7, 0))).toBe(65);
+  });
+
+  it('should use default sun times without a location', () => {
+    const evening = { name: 'Evening', points: [{ time: 'sunset', level: 80 }, { time: 'sunset+60', level: 20 }] };
+    const circadian = new CircadianLighting(log, { curves: [evening] });
+
+    expect(circadian.levelAt(evening, new Date(2024, 0, 1, 19, 30))).toBe(50);
+    expect(log.warn).toHaveBeenCalled();
+  });
+
+  it('should find the curve of a device by room', () => {
+    const circadian = new CircadianLighting(log, { curves: [hallway] });
+
+    expect(circadian.curveFor({ id: 1, roomName: 'hallway' } as CrestronDevice)).toBe(hallway);
+    expect(circadian.curveFor({ id: 2, roomName: 'Kitchen' } as CrestronDevice)).toBeUndefined();
+  });
+
+  it('should ignore curves with invalid points', () => {
+    const circadian = new CircadianLighting(log, { curves: [{ name: 'Broken', ids: [1], points: [{ time: 'noon', level: 50 }] }] });
+
+    expect(circadian.curveFor({ id: 1, roomName: 'Kitchen' } as CrestronDevice)).toBeUndefined();
+    expect(log.error).toHaveBeenCalled();
+  });
+});
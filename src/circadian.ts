@@ -0,0 +1,197 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice } from './crestronClient';
+
+/**
+ * A point of a curve: at `time` ("22:30", "sunrise", "sunset+30", "sunrise-45") the level is `level` percent
+ */
+export interface CurvePoint {
+  time: string;
+  level: number;
+}
+
+/**
+ * A brightness curve from the `circadian` section of the config, applied to the dimmers of its rooms and ids
+ */
+export interface CircadianCurve {
+  name: string;
+  points: CurvePoint[];
+  rooms?: string[];
+  ids?: number[];
+  // brightness set from HomeKit can't go above the curve
+  limit?: boolean;
+}
+
+export interface CircadianConfig {
+  latitude?: number;
+  longitude?: number;
+  curves?: CircadianCurve[];
+}
+
+export interface SunTimes {
+  sunrise: Date;
+  sunset: Date;
+}
+
+export type CurveListener = () => void;
+
+// Lights following a curve are moved to its current level this often
+const FOLLOW_INTERVAL_MILLIS = 5 * 60 * 1000;
+
+// Used for sunrise/sunset when there is no location, or the sun doesn't rise or set (polar day and night)
+const DEFAULT_SUNRISE = 7 * 60;
+const DEFAULT_SUNSET = 19 * 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Sunrise and sunset of the given day, calculated offline with the NOAA approximation (accurate to a minute or two).
+ * Returns undefined when the sun doesn't rise or set that day.
+ */
+export function sunTimes(date: Date, latitude: number, longitude: number): SunTimes | undefined {
+  const rad = Math.PI / 180;
+  const startOfYear = Date.UTC(date.getFullYear(), 0, 1);
+  const dayOfYear = Math.floor((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - startOfYear) / 86400000);
+
+  const gamma = 2 * Math.PI / 365 * dayOfYear;
+  const equationOfTime = 229.18 * (0.000075 + 0.001868 * Math.cos(gamma) - 0.032077 * Math.sin(gamma)
+    - 0.014615 * Math.cos(2 * gamma) - 0.040849 * Math.sin(2 * gamma));
+  const declination = 0.006918 - 0.399912 * Math.cos(gamma) + 0.070257 * Math.sin(gamma)
+    - 0.006758 * Math.cos(2 * gamma) + 0.000907 * Math.sin(2 * gamma)
+    - 0.002697 * Math.cos(3 * gamma) + 0.00148 * Math.sin(3 * gamma);
+
+  const cosHourAngle = Math.cos(90.833 * rad) / (Math.cos(latitude * rad) * Math.cos(declination))
+    - Math.tan(latitude * rad) * Math.tan(declination);
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return undefined;
+  }
+  const hourAngle = Math.acos(cosHourAngle) / rad;
+
+  // minutes after midnight UTC
+  const sunrise = 720 - 4 * (longitude + hourAngle) - equationOfTime;
+  const sunset = 720 - 4 * (longitude - hourAngle) - equationOfTime;
+  const midnight = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+
+  return {
+    sunrise: new Date(midnight + Math.round(sunrise * 60000)),
+    sunset: new Date(midnight + Math.round(sunset * 60000)),
+  };
+}
+
+/**
+ * Computes the brightness of time-of-day curves, linearly interpolated between their points (wrapping around midnight),
+ * and tells the lights following a curve when to move to its current level.
+ */
+export class CircadianLighting {
+  private readonly curves: CircadianCurve[];
+  private readonly listeners = new Set<CurveListener>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly config: CircadianConfig = {},
+  ) {
+    this.curves = (config.curves || []).filter(curve => {
+      const valid = curve.points?.length > 0 && curve.points.every(point => this.parseTime(point.time, new Date()) !== undefined);
+      if (!valid) {
+        this.log.error('Ignoring circadian curve without valid points:', curve.name);
+      }
+      return valid;
+    });
+
+    if (this.curves.length > 0 && (config.latitude === undefined || config.longitude === undefined)) {
+      this.log.warn('No latitude/longitude configured for circadian curves, using 07:00 for sunrise and 19:00 for sunset');
+    }
+  }
+
+  /**
+   * Returns the curve of the device, the first one listing its id or room
+   */
+  public curveFor(device: CrestronDevice): CircadianCurve | undefined {
+    return this.curves.find(curve =>
+      curve.ids?.includes(device.id) ||
+      curve.rooms?.some(room => room.toLowerCase() === device.roomName.toLowerCase()),
+    );
+  }
+
+  /**
+   * Level of the curve in percent at the given time
+   */
+  public levelAt(curve: CircadianCurve, date = new Date()): number {
+    const points = curve.points
+      .map(point => ({ minute: this.parseTime(point.time, date)!, level: point.level }))
+      .sort((a, b) => a.minute - b.minute);
+    const now = date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+
+    // the last point before now and the first one after it, from the previous or next day if needed
+    const nextIndex = points.findIndex(point => point.minute > now);
+    const next = nextIndex >= 0 ? points[nextIndex] : { ...points[0], minute: points[0].minute + MINUTES_PER_DAY };
+    const previous = nextIndex > 0
+      ? points[nextIndex - 1]
+      : nextIndex === 0
+        ? { ...points[points.length - 1], minute: points[points.length - 1].minute - MINUTES_PER_DAY }
+        : points[points.length - 1];
+
+    if (next.minute === previous.minute) {
+      return Math.round(previous.level);
+    }
+    const progress = (now - previous.minute) / (next.minute - previous.minute);
+    return Math.round(previous.level + (next.level - previous.level) * progress);
+  }
+
+  /**
+   * Register a light following a curve, returns a function that unregisters it
+   */
+  public subscribe(listener: CurveListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public start() {
+    if (this.curves.length === 0 || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      for (const listener of this.listeners) {
+        listener();
+      }
+    }, FOLLOW_INTERVAL_MILLIS);
+  }
+
+  public stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Minutes after local midnight of a curve point time, undefined when it can't be parsed
+   */
+  private parseTime(time: string, date: Date): number | undefined {
+    const clock = String(time).trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (clock) {
+      const minutes = Number(clock[1]) * 60 + Number(clock[2]);
+      return minutes < MINUTES_PER_DAY ? minutes : undefined;
+    }
+
+    const sun = String(time).trim().toLowerCase().match(/^(sunrise|sunset)\s*(?:([+-])\s*(\d+))?$/);
+    if (!sun) {
+      return undefined;
+    }
+    const offset = sun[3] ? Number(sun[3]) * (sun[2] === '-' ? -1 : 1) : 0;
+    const base = sun[1] === 'sunrise' ? this.sunMinutes(date).sunrise : this.sunMinutes(date).sunset;
+    return Math.min(Math.max(base + offset, 0), MINUTES_PER_DAY - 1);
+  }
+
+  private sunMinutes(date: Date): { sunrise: number; sunset: number } {
+    const { latitude, longitude } = this.config;
+    const times = latitude !== undefined && longitude !== undefined ? sunTimes(date, latitude, longitude) : undefined;
+    if (!times) {
+      return { sunrise: DEFAULT_SUNRISE, sunset: DEFAULT_SUNSET };
+    }
+    return {
+      sunrise: times.sunrise.getHours() * 60 + times.sunrise.getMinutes(),
+      sunset: times.sunset.getHours() * 60 + times.sunset.getMinutes(),
+    };
+  }
+}
@@ -15,6 +15,7 @@ describe('CrestronClient', () => {
 
     // Reset the mockAxios state before each test
     mockAxios.reset();
+    jest.restoreAllMocks();
   });
 
   it('should get devices', async () => {
@@ -74,7 +75,7 @@ describe('CrestronClient', () => {
         id: 301, currentTemperature: 720, currentMode: 'Cool', currentFanMode: 'Auto',
         currentSetPoint: [{ type: 'cool', temperature: 700 }], temperatureUnits: 'DeciFahrenheit',
         schedulerState: 'run', availableFanModes: ['Auto', 'On'], availableSystemModes: ['Off', 'Cool', 'Heat'],
-        connectionStatus: 'online',
+        connectionStatus: 'online', equipmentState: 'Cooling',
       }],
     });
 
@@ -87,7 +88,7 @@ describe('CrestronClient', () => {
         currentTemperature: 720, currentMode: 'Cool', currentFanMode: 'Auto',
         currentSetPoint: [{ type: 'cool', temperature: 700 }], temperatureUnits: 'DeciFahrenheit',
         schedulerState: 'run', availableFanModes: ['Auto', 'On'], availableSystemModes: ['Off', 'Cool', 'Heat'],
-        connectionStatus: 'online',
+        connectionStatus: 'online', runningState: 'Cooling',
       },
     ];
 
@@ -131,4 +132,169 @@ describe('CrestronClient', () => {
 
     expect(devices).toEqual(expectedDevices);
   });
+
+  it('should set the thermostat scheduler state', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/thermostats/schedulerstate').reply(200, { status: 'success' });
+
+    await client.setThermostatSchedulerState({ id: 301, schedulerState: 'hold' });
+
+    expect(JSON.parse(mockAxios.history.post[0].data)).toEqual({ thermostats: [{ id: 301, schedulerState: 'hold' }] });
+  });
+
+  it('should fail thermostat scheduler changes the processor rejects', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/thermostats/schedulerstate').reply(400);
+
+    await expect(client.setThermostatSchedulerState({ id: 301, schedulerState: 'run' })).rejects.toThrow();
+  });
+
+  it('should fail thermostat setpoint and mode changes the processor rejects', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/thermostats/SetPoint').reply(400);
+    mockAxios.onPost('/thermostats/mode').reply(400);
+
+    await expect(client.setThermostatSetPoint({ id: 301, setpoints: [{ type: 'Heat', temperature: 680 }] })).rejects.toThrow();
+    await expect(client.setThermostatMode({ id: 301, mode: 'HEAT' })).rejects.toThrow();
+  });
+
+  it('should confirm arming once the panel counts down its exit delay', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/securitydevices/401').reply(200, { status: 'success' });
+    mockAxios.onGet('/securitydevices').replyOnce(200, { securityDevices: [{ id: 401, currentState: 'Disarmed' }] });
+    mockAxios.onGet('/securitydevices').replyOnce(200, { securityDevices: [{ id: 401, currentState: 'ExitDelay' }] });
+
+    const result = await client.setSecuritySystemState({ id: 401, state: 'ArmAway' }, { interval: 1 });
+
+    expect(result).toEqual({ confirmed: true, state: 'ExitDelay' });
+    expect(JSON.parse(mockAxios.history.post[0].data)).toEqual({ state: 'ArmAway' });
+    expect(mockAxios.history.get.filter(request => request.url === '/securitydevices')).toHaveLength(2);
+  });
+
+  it('should confirm disarming once the panel reports it', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/securitydevices/401').reply(200, { status: 'success' });
+    mockAxios.onGet('/securitydevices').replyOnce(200, { securityDevices: [{ id: 401, currentState: 'EntryDelay' }] });
+    mockAxios.onGet('/securitydevices').replyOnce(500);
+    mockAxios.onGet('/securitydevices').replyOnce(200, { securityDevices: [{ id: 401, currentState: 'Disarmed' }] });
+
+    const result = await client.setSecuritySystemState({ id: 401, state: 'Disarmed' }, { interval: 1 });
+
+    expect(result).toEqual({ confirmed: true, state: 'Disarmed' });
+  });
+
+  it('should report the state of a panel that does not follow', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/securitydevices/401').reply(200, { status: 'success' });
+    mockAxios.onGet('/securitydevices').reply(200, { securityDevices: [{ id: 401, currentState: 'Disarmed' }] });
+
+    const result = await client.setSecuritySystemState({ id: 401, state: 'ArmStay' }, { interval: 5, timeout: 30 });
+
+    expect(result).toEqual({ confirmed: false, state: 'Disarmed' });
+    expect(log.error).toHaveBeenCalled();
+  });
+
+  it('should fail security changes the processor rejects', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/securitydevices/401').reply(400);
+
+    await expect(client.setSecuritySystemState({ id: 401, state: 'ArmAway' }, { interval: 1 })).rejects.toThrow();
+    expect(mockAxios.history.get.filter(request => request.url === '/securitydevices')).toHaveLength(0);
+  });
+
+  it('should read security states back within the deadline, without retries', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/securitydevices/401').reply(200, { status: 'success' });
+    mockAxios.onGet('/securitydevices').replyOnce(503);
+    mockAxios.onGet('/securitydevices').replyOnce(200, { securityDevices: [{ id: 401, currentState: 'ExitDelay' }] });
+
+    const started = Date.now();
+    const result = await client.setSecuritySystemState({ id: 401, state: 'ArmAway' }, { interval: 1 });
+
+    expect(result).toEqual({ confirmed: true, state: 'ExitDelay' });
+    // a retry would have backed off for at least 250 ms
+    expect(Date.now() - started).toBeLessThan(250);
+    for (const read of mockAxios.history.get.filter(request => request.url === '/securitydevices')) {
+      expect(read.timeout).toBeGreaterThan(0);
+      expect(read.timeout).toBeLessThanOrEqual(8000);
+    }
+  });
+
+  it('should not retry security changes past the deadline', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onPost('/securitydevices/401').replyOnce(503);
+    mockAxios.onPost('/securitydevices/401').reply(200, { status: 'success' });
+
+    await expect(client.setSecuritySystemState({ id: 401, state: 'ArmAway' }, { interval: 1, timeout: 100 })).rejects.toThrow();
+    expect(mockAxios.history.post).toHaveLength(1);
+    expect(mockAxios.history.post[0].timeout).toBeLessThanOrEqual(100);
+  });
+
+  it('should log in again and replay requests rejected with 401', async () => {
+    mockAxios.onGet('/login').replyOnce(200, { authkey: 'auth-key-1', version: '1.0.0' });
+    mockAxios.onGet('/login').replyOnce(200, { authkey: 'auth-key-2', version: '1.0.0' });
+    mockAxios.onGet('/devices/201').replyOnce(401);
+    mockAxios.onGet('/devices/201').replyOnce(200, { devices: [{ id: 201, level: 50 }] });
+
+    const states: string[] = [];
+    client.onConnectionChange(state => states.push(state));
+
+    const device = await client.getDevice(201);
+
+    expect(device).toEqual({ id: 201, level: 50 });
+    expect(states).toEqual(['reauthenticating', 'connected']);
+    expect(mockAxios.history.get.filter(request => request.url === '/login')).toHaveLength(2);
+    expect(mockAxios.history.get.pop()?.headers?.['Crestron-RestAPI-AuthKey']).toBe('auth-key-2');
+  });
+
+  it('should share a single login between concurrent requests', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onGet('/devices/201').reply(200, { devices: [{ id: 201 }] });
+    mockAxios.onGet('/devices/202').reply(200, { devices: [{ id: 202 }] });
+
+    await Promise.all([client.getDevice(201), client.getDevice(202)]);
+
+    expect(mockAxios.history.get.filter(request => request.url === '/login')).toHaveLength(1);
+  });
+
+  it('should retry transient errors', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onGet('/devices/201').networkErrorOnce();
+    mockAxios.onGet('/devices/201').replyOnce(503);
+    mockAxios.onGet('/devices/201').replyOnce(200, { devices: [{ id: 201 }] });
+
+    const device = await client.getDevice(201);
+
+    expect(device).toEqual({ id: 201 });
+    expect(mockAxios.history.get.filter(request => request.url === '/devices/201')).toHaveLength(3);
+  });
+
+  it('should poll the rooms right away for devices in a room that is not known yet', async () => {
+    mockAxios.onGet('/login').reply(200, { authkey: 'auth-key', version: '1.0.0' });
+    mockAxios.onGet('/rooms').replyOnce(200, { rooms: [{ id: 1, name: 'Living Room' }] });
+    mockAxios.onGet('/rooms').reply(200, { rooms: [{ id: 1, name: 'Living Room' }, { id: 2, name: 'Kitchen' }] });
+    mockAxios.onGet('/scenes').reply(200, { scenes: [] });
+    mockAxios.onGet('/devices').replyOnce(200, { devices: [{ id: 201, name: 'Light', type: 'Dimmer', roomId: 1 }] });
+    mockAxios.onGet('/devices').reply(200, {
+      devices: [{ id: 201, name: 'Light', type: 'Dimmer', roomId: 1 }, { id: 202, name: 'Light', type: 'Dimmer', roomId: 2 }],
+    });
+    mockAxios.onGet('/shades').reply(200, { shades: [] });
+    mockAxios.onGet('/thermostats').reply(200, { thermostats: [] });
+
+    await client.getDevices(['Dimmer']);
+    const devices = await client.pollDevices(['devices'], ['Dimmer']);
+    await client.pollDevices(['devices'], ['Dimmer']);
+
+    expect(devices.map(device => device.name)).toEqual(['Living Room Light', 'Kitchen Light']);
+    expect(mockAxios.history.get.filter(request => request.url === '/rooms')).toHaveLength(2);
+  });
+
+  it('should fail polls when the processor can not be logged in to', async () => {
+    mockAxios.onGet('/login').reply(401);
+
+    await expect(client.pollDevices(['devices'], ['Dimmer'])).rejects.toThrow();
+    expect(client.connectionState).toBe('offline');
+    expect(mockAxios.history.get.filter(request => request.url === '/devices')).toHaveLength(0);
+  });
 });
\ No newline at end of file
@@ -1,16 +1,27 @@
 import { Logger } from 'homebridge';
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
 import https from 'https';
+import { WriteQueue } from './writeQueue';
 
 type LightState = {
   id: number;
   level: number;
-  time: number;
+  time: number; // ramp time in milliseconds
 };
 
 type ShadeState = {
   id: number;
-  position: number;
+  position?: number;
+  tilt?: number; // shades that report a tilt, 0-65535 like the position
+};
+
+/**
+ * A motor of a shade - shades driven by several motors (e.g. split-draw drapes) are exposed as one,
+ * inverted motors get their position flipped
+ */
+export type ShadeMotor = {
+  id: number;
+  invert: boolean;
 };
 
 type ThermostatSetPoint = {
@@ -31,18 +42,157 @@ type ThermostatFanMode = {
   mode: 'AUTO' | 'ON';
 };
 
+type ThermostatSchedulerState = {
+  id: number;
+  schedulerState: 'run' | 'hold';
+};
+
 type SecuritySystemState = {
   id: number;
-  state: 'Disarmed' | 'ArmStay' | 'ArmAway' | 'ArmInstant';
+  state: string; // 'Disarmed', 'ArmStay', 'ArmAway', 'ArmInstant' - whatever the panel offers in its availableStates
 };
 
+/**
+ * Whether the panel reached a requested security state, and the state it reported last
+ */
+export interface SecurityStateResult {
+  confirmed: boolean;
+  state?: string;
+}
+
+/**
+ * How long, and how often, to read a security state change back - in milliseconds
+ */
+export interface SecurityConfirmation {
+  timeout?: number;
+  interval?: number;
+}
+
+
+/**
+ * Every Crestron endpoint the device list is assembled from, each one can be polled on its own schedule
+ */
+export type PollCategory = 'rooms' | 'scenes' | 'devices' | 'shades' | 'thermostats' | 'doorlocks' | 'securitydevices';
+
+export const POLL_CATEGORIES: PollCategory[] = [
+  'rooms', 'scenes', 'devices', 'shades', 'thermostats', 'doorlocks', 'securitydevices',
+];
+
+const ENDPOINTS: Record<PollCategory, { path: string; key: string; optional?: boolean }> = {
+  rooms: { path: '/rooms', key: 'rooms' },
+  scenes: { path: '/scenes', key: 'scenes' },
+  devices: { path: '/devices', key: 'devices' },
+  shades: { path: '/shades', key: 'shades' },
+  thermostats: { path: '/thermostats', key: 'thermostats' },
+  doorlocks: { path: '/doorlocks', key: 'doorLocks', optional: true },
+  securitydevices: { path: '/securitydevices', key: 'securityDevices', optional: true },
+};
+
+/**
+ * Returns the device type as it is named in `enabledTypes` of the config
+ */
+export function configType(deviceType: string): string {
+  switch (deviceType) {
+    case 'thermostat':
+      return 'Thermostat';
+    case 'lock':
+      return 'DoorLock';
+    case 'security Device':
+      return 'SecuritySystem';
+    default:
+      return deviceType;
+  }
+}
+
+export type WriteListener = (category: PollCategory) => void;
+
+/**
+ * Health of the connection to the processor:
+ * - connected: the last request got an answer
+ * - degraded: requests fail, but are still being retried
+ * - offline: requests failed for good or the processor can't be logged in to
+ * - reauthenticating: the processor dropped the session and the client is logging in again
+ */
+export type ConnectionState = 'connected' | 'degraded' | 'offline' | 'reauthenticating';
+
+export type ConnectionListener = (state: ConnectionState, previous: ConnectionState) => void;
+
+const AUTH_KEY_HEADER = 'Crestron-RestAPI-AuthKey';
+
+// Transient errors are retried after 0.5s, 1s and 2s (plus jitter) before a request fails
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MILLIS = 500;
+
+// Light and shade writes arriving within this window are sent as one request
+const WRITE_BATCH_WINDOW_MILLIS = 50;
+
+// A security state change is read back every second until the panel reports it. The whole change has to be done
+// within 8s, HomeKit gives up on a write after 10s and would never see the outcome.
+const SECURITY_CONFIRM_INTERVAL_MILLIS = 1000;
+const SECURITY_CONFIRM_TIMEOUT_MILLIS = 8 * 1000;
+
+type RetryRequestConfig = AxiosRequestConfig & {
+  retries?: number;
+  reauthenticated?: boolean;
+  // transient errors fail right away, for reads that are repeated anyway
+  noRetry?: boolean;
+  // epoch millis the request has to be answered by, retries included
+  deadline?: number;
+};
+
+/**
+ * The processor rejects requests with 401/403 once it dropped the session (reboot, auth key expired early)
+ */
+function isAuthError(error: AxiosError): boolean {
+  const status = error.response?.status;
+  const message = (error.response?.data as { errorMessage?: string } | undefined)?.errorMessage;
+  return status === 401 || status === 403 || (typeof message === 'string' && /auth\s*key/i.test(message));
+}
+
+/**
+ * Network errors, timeouts and overloaded or restarting processors are worth another try,
+ * every Crestron write sets an absolute state so replaying it is safe
+ */
+function isTransientError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status === 502 || status === 503 || status === 504;
+}
+
+/**
+ * Exponential backoff with jitter, so requests that failed together don't retry together
+ */
+function retryDelay(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MILLIS * 2 ** attempt;
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function sleep(millis: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, millis));
+}
 
 type Room = {
   id: number;
   name: string;
 };
 
+/**
+ * An entry of /devices, the lights, shades, thermostats, locks and security devices of all rooms
+ */
+interface DeviceData {
+  id: number;
+  name: string;
+  type: string;
+  subType?: string;
+  roomId: number;
+  level?: number;
+  status?: boolean;
+}
+
 interface ThermostatData {
+  id: number;
   currentTemperature?: number; // In DeciFahrenheit (720 = 72.0°F)
   currentMode?: string; // 'Cool', 'Heat', 'Auto', 'Off'
   currentFanMode?: string; // 'Auto', 'On'
@@ -52,15 +202,33 @@ interface ThermostatData {
   availableFanModes?: string[];
   availableSystemModes?: string[];
   connectionStatus?: string;
+  // what the equipment is doing, the field depends on the thermostat model and firmware
+  runningState?: string; // 'Heating', 'Cooling', 'Idle'...
+  currentRunningState?: string;
+  equipmentState?: string;
+  hvacState?: string;
+  operatingState?: string;
+}
+
+interface ShadeData {
+  id: number;
+  position: number; // 0 (closed) to 65535 (open)
+  tilt?: number; // reported as tilt or tiltPosition, depending on the firmware
+  tiltPosition?: number;
+  tiltType?: string; // 'Horizontal', 'Vertical'
 }
 
 interface DoorLockData {
+  id: number;
+  name: string;
+  roomId: number;
   status?: string;
   type?: string;
   connectionStatus?: string;
 }
 
 interface SecurityDeviceData {
+  id: number;
   availableStates?: string[]; // e.g., ["Alarm", "ArmAway", "ArmInstant", "ArmStay", "Disarmed", "EntryDelay", "ExitDelay", "Fire"]
   currentState?: string; // e.g., "Disarmed", "ArmAway", "Alarm", etc.
   connectionStatus?: string;
@@ -75,6 +243,19 @@ type Scene = {
   status: boolean;
 };
 
+/**
+ * The entries of each polled endpoint
+ */
+interface EndpointData {
+  rooms: Room;
+  scenes: Scene;
+  devices: DeviceData;
+  shades: ShadeData;
+  thermostats: ThermostatData;
+  doorlocks: DoorLockData;
+  securitydevices: SecurityDeviceData;
+}
+
 export interface CrestronDevice {
   id: number;
   name: string;
@@ -95,26 +276,43 @@ export interface CrestronDevice {
   availableFanModes?: string[];
   availableSystemModes?: string[];
   connectionStatus?: string;
+  runningState?: string; // as reported, whichever running/equipment state field the thermostat has
   // Door lock-specific properties
   lockStatus?: string; // 'locked', 'unlocked', 'jammed', etc.
   lockType?: string;
   // Security system-specific properties
   securityCurrentState?: string; // 'Disarmed', 'ArmAway', 'ArmStay', 'Alarm', 'Fire', etc.
   securityAvailableStates?: string[]; // Available security states
+  // Shade-specific properties
+  tilt?: number; // 0-65535, only reported by shades that can tilt (e.g. venetian blinds)
+  tiltType?: string; // 'horizontal' or 'vertical' slats
+  motors?: ShadeMotor[];
+  // Scene-specific properties
+  pairedScene?: { id: number; status: boolean }; // the "Off" scene merged into this "On" scene's switch
 }
 
 export class CrestronClient {
-  private axiosClient!: AxiosInstance;
+  private axiosClient: AxiosInstance;
   private apiToken: string;
   private crestronUri: string;
-  private lastLogin: number = new Date().getTime() - 11 * 60 * 1000; // 11 minutes, Crestron session TTL is 10 minutes
-  private NINE_MINUTES_MILLIS = 9 * 60 * 1000;
+  private authKey?: string;
+  private lastLogin = 0;
+  private loginPromise?: Promise<number>;
+  private NINE_MINUTES_MILLIS = 9 * 60 * 1000; // Crestron session TTL is 10 minutes
 
   private httpsAgent = new https.Agent({
     rejectUnauthorized: false,
   });
 
   private rooms: Room[] = [];
+  // rooms devices referred to that weren't in the room list, each only triggers a single refresh of it
+  private unknownRoomIds = new Set<number>();
+  private endpointData: { [category in PollCategory]?: EndpointData[category][] } = {};
+  private writeListeners: WriteListener[] = [];
+  private connectionListeners: ConnectionListener[] = [];
+  private state: ConnectionState = 'connected';
+  private lightWrites = new WriteQueue<LightState>(WRITE_BATCH_WINDOW_MILLIS, lights => this.postLightsState(lights));
+  private shadeWrites = new WriteQueue<ShadeState>(WRITE_BATCH_WINDOW_MILLIS, shades => this.postShadesState(shades));
 
 
   constructor(
@@ -126,188 +324,276 @@ export class CrestronClient {
 
     this.log.debug('Configured Crestron Processor, trying to login to;', crestronHost);
     this.crestronUri = `https://${crestronHost}/cws/api`;
+    this.axiosClient = this.createAxiosClient();
   }
 
   public async getDevices(enabledTypes: string[]) {
     this.log.debug('Start discovering devices...');
 
-    const devices: CrestronDevice[] = [];
-
     try {
-      await this.login();
-
-      const crestronData = await Promise.all([
-        this.axiosClient.get('/rooms'),
-        this.axiosClient.get('/scenes'),
-        this.axiosClient.get('/devices'),
-        this.axiosClient.get('/shades'),
-        this.axiosClient.get('/thermostats'),
-        this.axiosClient.get('/doorlocks').catch(() => ({ data: { doorLocks: [] } })), // Handle if endpoint doesn't exist
-        this.axiosClient.get('/securitydevices').catch(() => ({ data: { securityDevices: [] } })), // Handle if endpoint doesn't exist
-      ]);
-
-      this.rooms = crestronData[0].data.rooms;
+      await this.fetchEndpoints(POLL_CATEGORIES);
 
       // Debug logging for device discovery
       this.log.info('🔍 DEVICE DISCOVERY SUMMARY:');
-      this.log.info('- Total devices:', crestronData[2].data.devices?.length || 0);
-      this.log.info('- Total thermostats from API:', crestronData[4].data.thermostats?.length || 0);
-      this.log.info('- Total scenes:', crestronData[1].data.scenes?.length || 0);
-      this.log.info('- Total shades:', crestronData[3].data.shades?.length || 0);
-      this.log.info('- Total security devices from API:', crestronData[6].data.securityDevices?.length || 0);
+      this.log.info('- Total devices:', this.endpointData.devices?.length || 0);
+      this.log.info('- Total thermostats from API:', this.endpointData.thermostats?.length || 0);
+      this.log.info('- Total scenes:', this.endpointData.scenes?.length || 0);
+      this.log.info('- Total shades:', this.endpointData.shades?.length || 0);
+      this.log.info('- Total security devices from API:', this.endpointData.securitydevices?.length || 0);
       this.log.info('- Enabled types in config:', enabledTypes.join(', '));
 
+      // this.log.debug('Get Devices response: ', devices);
+      return this.buildDevices(enabledTypes, true);
+    } catch (error) {
+      this.log.error('error getting devices: ', error);
+      return [];
+    }
+  }
 
-      for (const device of crestronData[2].data.devices) {
+  /**
+   * Refresh only the given endpoints and rebuild the device list,
+   * data of the other endpoints is taken from the last successful fetch.
+   * Unlike getDevices, errors are thrown so a failed poll can't be mistaken for an empty home.
+   */
+  public async pollDevices(categories: PollCategory[], enabledTypes: string[]) {
+    // endpoints that were never fetched successfully are always refreshed, so the result is complete
+    const missing = POLL_CATEGORIES.filter(category => !this.endpointData[category] && !categories.includes(category));
+    this.log.debug('Polling endpoints:', [...categories, ...missing].join(', '));
+
+    const fetched = [...categories, ...missing];
+    await this.fetchEndpoints(fetched);
+
+    // rooms are polled rarely, a device in a room added since would go without its room name until the next poll
+    if (!fetched.includes('rooms') && this.hasNewUnknownRoom()) {
+      this.log.debug('Polling endpoints: rooms, for a room that is not known yet');
+      await this.fetchEndpoints(['rooms']);
+    }
+    return this.buildDevices(enabledTypes, false);
+  }
 
-        const roomName = this.rooms.find(r => r.id === device.roomId)?.name;
-        const deviceType = device.subType || device.type;
-        let shadePosition = 0;
-        let thermostatData: ThermostatData | null = null;
-        let doorLockData: DoorLockData | null = null;
-        let securityDeviceData: SecurityDeviceData | null = null;
+  /**
+   * Register a listener that is called after every successful write to the processor
+   */
+  public onWrite(listener: WriteListener) {
+    this.writeListeners.push(listener);
+  }
 
-        // Debug logging for each device
-        if (deviceType === 'Thermostat' || deviceType === 'thermostat') {
-          this.log.info(`🌡️ Found thermostat device: ID=${device.id}, name="${device.name}", room="${roomName}", type="${deviceType}"`);
-        }
-        if (deviceType === 'security Device') {
-          this.log.info(`🔒 Found security device: ID=${device.id}, name="${device.name}", room="${roomName}", type="${deviceType}"`);
-        }
+  public get connectionState(): ConnectionState {
+    return this.state;
+  }
 
-        if (deviceType === 'Shade') {
-          shadePosition = crestronData[3].data.shades.find(sh => sh.id === device.id)?.position;
-        }
+  /**
+   * Register a listener that is called whenever the connection state changes
+   */
+  public onConnectionChange(listener: ConnectionListener) {
+    this.connectionListeners.push(listener);
+  }
 
-        if (deviceType === 'Thermostat' || deviceType === 'thermostat') {
-          thermostatData = crestronData[4].data.thermostats?.find(th => th.id === device.id);
-          this.log.debug(`Thermostat matching: deviceID=${device.id}, foundThermostatData=${!!thermostatData}`);
-          if (thermostatData) {
-            this.log.debug('Thermostat data:', JSON.stringify(thermostatData, null, 2));
-          }
-        }
+  private setConnectionState(state: ConnectionState) {
+    const previous = this.state;
+    if (state === previous) {
+      return;
+    }
 
-        if (deviceType === 'DoorLock' || deviceType === 'lock') {
-          doorLockData = crestronData[5].data.doorLocks?.find(dl => dl.id === device.id);
-        }
+    this.state = state;
+    this.log.debug(`Crestron connection state: ${previous} -> ${state}`);
+    for (const listener of this.connectionListeners) {
+      listener(state, previous);
+    }
+  }
 
-        if (deviceType === 'security Device') {
-          securityDeviceData = crestronData[6].data.securityDevices?.find(sd => sd.id === device.id);
-          this.log.info(`🔒 Security device matching: deviceID=${device.id}, foundSecurityData=${!!securityDeviceData}`);
-          if (securityDeviceData) {
-            this.log.info('🔒 Security device data:', JSON.stringify(securityDeviceData, null, 2));
-          }
-        }
+  private notifyWrite(...categories: PollCategory[]) {
+    for (const listener of this.writeListeners) {
+      for (const category of categories) {
+        listener(category);
+      }
+    }
+  }
+
+  private async fetchEndpoints(categories: PollCategory[]) {
+    const responses = await Promise.all(categories.map(category => {
+      const endpoint = ENDPOINTS[category];
+      const request = this.axiosClient.get(endpoint.path);
+      // Handle if endpoint doesn't exist, keeping the last known data if it did respond before
+      return endpoint.optional ? request.catch(() => ({ data: { [endpoint.key]: this.endpointData[category] } })) : request;
+    }));
+
+    categories.forEach((category, index) => {
+      this.endpointData[category] = responses[index].data[ENDPOINTS[category].key] || [];
+    });
+
+    this.rooms = this.endpointData.rooms || [];
+  }
+
+  /**
+   * Whether a device, scene or door lock is in a room that isn't in the room list, and wasn't reported before
+   */
+  private hasNewUnknownRoom(): boolean {
+    const roomIds = new Set(this.rooms.map(room => room.id));
+    const entries = [...this.endpointData.devices || [], ...this.endpointData.scenes || [], ...this.endpointData.doorlocks || []];
+    let found = false;
+    for (const { roomId } of entries) {
+      if (roomId !== undefined && !roomIds.has(roomId) && !this.unknownRoomIds.has(roomId)) {
+        this.unknownRoomIds.add(roomId);
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  private buildDevices(enabledTypes: string[], verbose: boolean) {
+    const devices: CrestronDevice[] = [];
+
+    for (const device of this.endpointData.devices || []) {
+
+      const roomName = this.rooms.find(r => r.id === device.roomId)?.name;
+      const deviceType = device.subType || device.type;
+      let shadePosition = 0;
+      let shadeData: ShadeData | null = null;
+      let thermostatData: ThermostatData | null = null;
+      let doorLockData: DoorLockData | null = null;
+      let securityDeviceData: SecurityDeviceData | null = null;
 
-        const d: CrestronDevice = {
-          id: device.id,
-          type: deviceType,
-          subType: deviceType,
-          name: `${roomName} ${device.name}`, // Name is "Room Name Device Name"
-          roomId: device.roomId,
-          roomName: roomName || '',
-          level: device.level || 0,
-          status: device.status || false,
-          position: shadePosition || 0,
-          // Map actual thermostat API response to our interface
-          currentTemperature: thermostatData?.currentTemperature,
-          currentMode: thermostatData?.currentMode,
-          currentFanMode: thermostatData?.currentFanMode,
-          currentSetPoint: thermostatData?.currentSetPoint,
-          temperatureUnits: thermostatData?.temperatureUnits,
-          schedulerState: thermostatData?.schedulerState,
-          availableFanModes: thermostatData?.availableFanModes,
-          availableSystemModes: thermostatData?.availableSystemModes,
-          connectionStatus: thermostatData?.connectionStatus || doorLockData?.connectionStatus,
-          // Map door lock API response to our interface
-          lockStatus: doorLockData?.status,
-          lockType: doorLockData?.type,
-          // Map security device API response to our interface
-          securityCurrentState: securityDeviceData?.currentState,
-          securityAvailableStates: securityDeviceData?.availableStates,
-        };
-
-        // Check if device type is enabled (handle special cases)
-        const isEnabled = enabledTypes.includes(deviceType) ||
-          (deviceType === 'thermostat' && enabledTypes.includes('Thermostat')) ||
-          (deviceType === 'security Device' && enabledTypes.includes('SecuritySystem'));
-        if (isEnabled) {
-          devices.push(d);
-          if (deviceType === 'Thermostat' || deviceType === 'thermostat') {
-            this.log.info(`✅ Added thermostat to devices list: ${d.name}`);
-          }
-          if (deviceType === 'security Device') {
-            this.log.info(`✅ Added security device to devices list: ${d.name}`);
-          }
-        } else if (deviceType === 'Thermostat' || deviceType === 'thermostat') {
-          this.log.info(`⚠️ Thermostat found but not enabled in config: ${d.name}`);
-        } else if (deviceType === 'security Device') {
-          this.log.info(`⚠️ Security device found but not enabled in config: ${d.name}`);
+      // Debug logging for each device
+      if (verbose && (deviceType === 'Thermostat' || deviceType === 'thermostat')) {
+        this.log.info(`🌡️ Found thermostat device: ID=${device.id}, name="${device.name}", room="${roomName}", type="${deviceType}"`);
+      }
+      if (verbose && deviceType === 'security Device') {
+        this.log.info(`🔒 Found security device: ID=${device.id}, name="${device.name}", room="${roomName}", type="${deviceType}"`);
+      }
+
+      if (deviceType === 'Shade') {
+        shadeData = this.endpointData.shades?.find(sh => sh.id === device.id) ?? null;
+        shadePosition = shadeData?.position ?? 0;
+      }
+
+      if (deviceType === 'Thermostat' || deviceType === 'thermostat') {
+        thermostatData = this.endpointData.thermostats?.find(th => th.id === device.id) ?? null;
+        this.log.debug(`Thermostat matching: deviceID=${device.id}, foundThermostatData=${!!thermostatData}`);
+        if (thermostatData) {
+          this.log.debug('Thermostat data:', JSON.stringify(thermostatData, null, 2));
         }
+      }
 
+      if (deviceType === 'DoorLock' || deviceType === 'lock') {
+        doorLockData = this.endpointData.doorlocks?.find(dl => dl.id === device.id) ?? null;
       }
 
-      for (const scene of crestronData[1].data.scenes) {
-
-        const roomName = this.rooms.find(r => r.id === scene.roomId)?.name;
-        const d: CrestronDevice = {
-          id: scene.id,
-          type: 'Scene',
-          subType: scene.type,
-          name: `${roomName} ${scene.name}`, // Name is "Room Name Service Name"
-          roomId: scene.roomId,
-          roomName: roomName || '',
-          level: 0,
-          status: scene.status,
-          position: 0,
-        };
-
-        if (enabledTypes.includes('Scene')) {
-          devices.push(d);
+      if (deviceType === 'security Device') {
+        securityDeviceData = this.endpointData.securitydevices?.find(sd => sd.id === device.id) ?? null;
+        this.log.debug(`Security device matching: deviceID=${device.id}, foundSecurityData=${!!securityDeviceData}`);
+        if (verbose && securityDeviceData) {
+          this.log.info('🔒 Security device data:', JSON.stringify(securityDeviceData, null, 2));
         }
       }
 
-      // Handle door locks from /doorlocks endpoint
-      for (const doorLock of crestronData[5].data.doorLocks || []) {
-
-        const roomName = this.rooms.find(r => r.id === doorLock.roomId)?.name;
-        const d: CrestronDevice = {
-          id: doorLock.id,
-          type: 'DoorLock',
-          subType: doorLock.type,
-          name: `${roomName} ${doorLock.name}`, // Name is "Room Name Lock Name"
-          roomId: doorLock.roomId,
-          roomName: roomName || '',
-          level: 0,
-          status: doorLock.status === 'locked',
-          position: 0,
-          // Map door lock properties
-          lockStatus: doorLock.status,
-          lockType: doorLock.type,
-          connectionStatus: doorLock.connectionStatus,
-        };
-
-        if (enabledTypes.includes('DoorLock')) {
-          devices.push(d);
+      const d: CrestronDevice = {
+        id: device.id,
+        type: deviceType,
+        subType: deviceType,
+        name: `${roomName} ${device.name}`, // Name is "Room Name Device Name"
+        roomId: device.roomId,
+        roomName: roomName || '',
+        level: device.level || 0,
+        status: device.status || false,
+        position: shadePosition || 0,
+        // Map shade tilt, when the shade has one
+        tilt: shadeData?.tilt ?? shadeData?.tiltPosition,
+        tiltType: shadeData?.tiltType?.toLowerCase(),
+        // Map actual thermostat API response to our interface
+        currentTemperature: thermostatData?.currentTemperature,
+        currentMode: thermostatData?.currentMode,
+        currentFanMode: thermostatData?.currentFanMode,
+        currentSetPoint: thermostatData?.currentSetPoint,
+        temperatureUnits: thermostatData?.temperatureUnits,
+        schedulerState: thermostatData?.schedulerState,
+        availableFanModes: thermostatData?.availableFanModes,
+        availableSystemModes: thermostatData?.availableSystemModes,
+        runningState: thermostatData?.runningState ?? thermostatData?.currentRunningState ?? thermostatData?.equipmentState
+          ?? thermostatData?.hvacState ?? thermostatData?.operatingState,
+        connectionStatus: thermostatData?.connectionStatus || doorLockData?.connectionStatus || securityDeviceData?.connectionStatus,
+        // Map door lock API response to our interface
+        lockStatus: doorLockData?.status,
+        lockType: doorLockData?.type,
+        // Map security device API response to our interface
+        securityCurrentState: securityDeviceData?.currentState,
+        securityAvailableStates: securityDeviceData?.availableStates,
+      };
+
+      // Check if device type is enabled (handle special cases)
+      const isEnabled = enabledTypes.includes(deviceType) ||
+        (deviceType === 'thermostat' && enabledTypes.includes('Thermostat')) ||
+        (deviceType === 'security Device' && enabledTypes.includes('SecuritySystem'));
+      if (isEnabled) {
+        devices.push(d);
+        if (verbose && (deviceType === 'Thermostat' || deviceType === 'thermostat')) {
+          this.log.info(`✅ Added thermostat to devices list: ${d.name}`);
+        }
+        if (verbose && deviceType === 'security Device') {
+          this.log.info(`✅ Added security device to devices list: ${d.name}`);
         }
+      } else if (verbose && (deviceType === 'Thermostat' || deviceType === 'thermostat')) {
+        this.log.info(`⚠️ Thermostat found but not enabled in config: ${d.name}`);
+      } else if (verbose && deviceType === 'security Device') {
+        this.log.info(`⚠️ Security device found but not enabled in config: ${d.name}`);
       }
 
-      // if (devices.length > 149) {
-      //   this.log.warn('Returning more than 149 devices, Homebridge may crash - ', devices.length);
-      // }
+    }
 
-      // this.log.debug('Get Devices response: ', devices);
-      return devices;
-    } catch (error) {
-      this.log.error('error getting devices: ', error);
-      return [];
+    for (const scene of this.endpointData.scenes || []) {
+
+      const roomName = this.rooms.find(r => r.id === scene.roomId)?.name;
+      const d: CrestronDevice = {
+        id: scene.id,
+        type: 'Scene',
+        subType: scene.type,
+        name: `${roomName} ${scene.name}`, // Name is "Room Name Service Name"
+        roomId: scene.roomId,
+        roomName: roomName || '',
+        level: 0,
+        status: scene.status,
+        position: 0,
+      };
+
+      if (enabledTypes.includes('Scene')) {
+        devices.push(d);
+      }
+    }
+
+    // Handle door locks from /doorlocks endpoint
+    for (const doorLock of this.endpointData.doorlocks || []) {
+
+      const roomName = this.rooms.find(r => r.id === doorLock.roomId)?.name;
+      const d: CrestronDevice = {
+        id: doorLock.id,
+        type: 'DoorLock',
+        subType: doorLock.type ?? '',
+        name: `${roomName} ${doorLock.name}`, // Name is "Room Name Lock Name"
+        roomId: doorLock.roomId,
+        roomName: roomName || '',
+        level: 0,
+        status: doorLock.status === 'locked',
+        position: 0,
+        // Map door lock properties
+        lockStatus: doorLock.status,
+        lockType: doorLock.type,
+        connectionStatus: doorLock.connectionStatus,
+      };
+
+      if (enabledTypes.includes('DoorLock')) {
+        devices.push(d);
+      }
     }
+
+    // if (devices.length > 149) {
+    //   this.log.warn('Returning more than 149 devices, Homebridge may crash - ', devices.length);
+    // }
+
+    return devices;
   }
 
   public async getDevice(id: number) {
 
-    await this.login();
-
     try {
       const response = await this.axiosClient.get(`/devices/${id}`);
 
@@ -321,8 +607,6 @@ export class CrestronClient {
 
   public async getShadeState(id: number) {
 
-    await this.login();
-
     try {
       const response = await this.axiosClient.get(`/Shades/${id}`);
 
@@ -334,30 +618,44 @@ export class CrestronClient {
     }
   }
 
+  /**
+   * Queue shade positions, they are sent together with the other shade writes of the batch window.
+   * Rejects when the request carrying them fails.
+   */
   public async setShadesState(shades: ShadeState[]) {
+    await Promise.all(shades.map(shade => this.shadeWrites.enqueue(shade)));
+  }
+
+  /**
+   * Queue light levels, they are sent together with the other light writes of the batch window.
+   * Rejects when the request carrying them fails.
+   */
+  public async setLightsState(lights: LightState[]) {
+    await Promise.all(lights.map(light => this.lightWrites.enqueue(light)));
+  }
+
+  private async postShadesState(shades: ShadeState[]) {
 
     const shadesState = { shades: shades };
     this.log.debug('Setting shades state:', shades);
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(
         '/Shades/SetState',
         shadesState,
       );
       this.log.debug('Shades state changed successfully: ', response.data);
+      this.notifyWrite('shades');
     } catch (error) {
       this.log.error('Error setting Shades state:', error);
+      throw error;
     }
   }
 
-  public async setLightsState(lights: LightState[]) {
+  private async postLightsState(lights: LightState[]) {
 
     const lightsState = { lights: lights };
     //this.log.debug('Setting lights state:', lightsState);
 
-    await this.login();
-
     try {
       const response = await this.axiosClient.post(
         '/Lights/SetState',
@@ -365,14 +663,14 @@ export class CrestronClient {
       );
 
       this.log.debug('Lights state changed successfully: ', response.data);
+      this.notifyWrite('devices');
     } catch (error) {
       this.log.error('error changing lights state: ', error);
+      throw error;
     }
   }
 
   public async getScene(sceneId: number): Promise<Scene> {
-
-    await this.login();
     try {
       const response = await this.axiosClient.get(`/scenes/${sceneId}`);
       return response.data.scenes[0];
@@ -383,14 +681,14 @@ export class CrestronClient {
   }
 
   public async recallScene(sceneId: number) {
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(
         `/SCENES/RECALL/${sceneId}`,
         '',
       );
       this.log.debug('Succsessfuly recalled scene:', response.data);
+      // a scene changes the state of its devices too
+      this.notifyWrite('scenes', 'devices', 'shades');
 
       return response.data;
     } catch (error) {
@@ -399,7 +697,6 @@ export class CrestronClient {
   }
 
   public async getThermostatState(id: number) {
-    await this.login();
 
     try {
       const response = await this.axiosClient.get(`/thermostats/${id}`);
@@ -412,16 +709,16 @@ export class CrestronClient {
 
   public async setThermostatSetPoint(setPointData: ThermostatSetPoint) {
     this.log.debug('Setting thermostat setpoint:', setPointData);
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(
         '/thermostats/SetPoint',
         setPointData,
       );
       this.log.debug('Thermostat setpoint changed successfully: ', response.data);
+      this.notifyWrite('thermostats');
     } catch (error) {
       this.log.error('Error setting thermostat setpoint:', error);
+      throw error;
     }
   }
 
@@ -430,16 +727,16 @@ export class CrestronClient {
       thermostats: [modeData],
     };
     this.log.debug('Setting thermostat mode:', payload);
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(
         '/thermostats/mode',
         payload,
       );
       this.log.debug('Thermostat mode changed successfully: ', response.data);
+      this.notifyWrite('thermostats');
     } catch (error) {
       this.log.error('Error setting thermostat mode:', error);
+      throw error;
     }
   }
 
@@ -448,92 +745,246 @@ export class CrestronClient {
       thermostats: [fanModeData],
     };
     this.log.debug('Setting thermostat fan mode:', payload);
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(
         '/thermostats/fanmode',
         payload,
       );
       this.log.debug('Thermostat fan mode changed successfully: ', response.data);
+      this.notifyWrite('thermostats');
     } catch (error) {
       this.log.error('Error setting thermostat fan mode:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run the thermostat's schedule, or hold its current setpoints
+   */
+  public async setThermostatSchedulerState(schedulerData: ThermostatSchedulerState) {
+    const payload = {
+      thermostats: [schedulerData],
+    };
+    this.log.debug('Setting thermostat scheduler state:', payload);
+    try {
+      const response = await this.axiosClient.post(
+        '/thermostats/schedulerstate',
+        payload,
+      );
+      this.log.debug('Thermostat scheduler state changed successfully: ', response.data);
+      this.notifyWrite('thermostats');
+    } catch (error) {
+      this.log.error('Error setting thermostat scheduler state:', error);
+      throw error;
     }
   }
 
-  public async setSecuritySystemState(securityStateData: SecuritySystemState) {
+  /**
+   * Arm or disarm a security panel, then read its state back until it reports the requested state (arming counts as
+   * confirmed once the panel counts down its exit delay) or the confirmation times out, counted from the request.
+   * Throws when the panel can't be reached, an unconfirmed change resolves with the state the panel reported last.
+   */
+  public async setSecuritySystemState(
+    securityStateData: SecuritySystemState,
+    confirmation: SecurityConfirmation = {},
+  ): Promise<SecurityStateResult> {
     this.log.debug('Setting security system state:', securityStateData);
     this.log.info(`🔒 SECURITY API: Changing security system ID ${securityStateData.id} to "${securityStateData.state}"`);
-
-    await this.login();
+    const deadline = Date.now() + (confirmation.timeout ?? SECURITY_CONFIRM_TIMEOUT_MILLIS);
     try {
-      // Based on Crestron API patterns, likely POST to /securitydevices/{id} with state
-      // Note: This follows the pattern seen in other Crestron APIs but hasn't been tested
       const response = await this.axiosClient.post(
         `/securitydevices/${securityStateData.id}`,
         {
           state: securityStateData.state,
         },
+        { deadline } as RetryRequestConfig,
       );
-      this.log.info(`✅ SECURITY API: Security system state changed successfully to "${securityStateData.state}"`);
       this.log.debug('Security system API response:', response.data);
+      this.notifyWrite('securitydevices');
     } catch (error) {
       this.log.error(`❌ SECURITY API: Error setting security system state to "${securityStateData.state}":`, error);
       throw error;
     }
+
+    const result = await this.confirmSecurityState(securityStateData, deadline, confirmation.interval);
+    if (result.confirmed) {
+      this.log.info(`✅ SECURITY API: Security system state changed successfully to "${result.state}"`);
+    } else {
+      this.log.error(
+        `❌ SECURITY API: Security system ID ${securityStateData.id} didn't change to "${securityStateData.state}",`,
+        `it reports "${result.state ?? 'unknown'}"`,
+      );
+    }
+    return result;
   }
 
-  public async login(): Promise<number> {
+  private async confirmSecurityState(
+    securityStateData: SecuritySystemState,
+    deadline: number,
+    interval = SECURITY_CONFIRM_INTERVAL_MILLIS,
+  ): Promise<SecurityStateResult> {
+    const requested = securityStateData.state.toLowerCase();
+    const arming = requested !== 'disarmed';
+    let state: string | undefined;
+
+    for (;;) {
+      try {
+        // a failed read is simply repeated on the next interval
+        const response = await this.axiosClient.get('/securitydevices', { deadline, noRetry: true } as RetryRequestConfig);
+        const device: SecurityDeviceData | undefined = response.data.securityDevices?.find(
+          (securityDevice: { id: number }) => securityDevice.id === securityStateData.id,
+        );
+        state = device?.currentState ?? state;
+      } catch (error) {
+        this.log.debug('Error reading the security system state back:', (error as Error).message);
+      }
 
-    this.log.debug('Starting login...');
+      const reported = state?.toLowerCase();
+      if (reported === requested || (arming && reported === 'exitdelay')) {
+        return { confirmed: true, state };
+      }
+      if (Date.now() + interval > deadline) {
+        return { confirmed: false, state };
+      }
+      await sleep(interval);
+    }
+  }
 
-    if (new Date().getTime() - this.lastLogin < this.NINE_MINUTES_MILLIS) {
-      this.log.debug('LOGIN: Session is still valid, doing nothing...');
+  /**
+   * Make sure there is a valid session. Concurrent callers share a single in-flight login,
+   * throws when the processor can't be logged in to.
+   */
+  public async login(): Promise<number> {
+    if (this.authKey && new Date().getTime() - this.lastLogin < this.NINE_MINUTES_MILLIS) {
       return this.lastLogin;
     }
 
-    try {
-      const response = await axios.get(
-        '/login',
-        {
-          httpsAgent: this.httpsAgent,
-          baseURL: this.crestronUri,
-          headers: {
-            Accept: 'application/json',
-            'Crestron-RestAPI-AuthToken': this.apiToken,
-          },
-        },
-      );
+    if (!this.loginPromise) {
+      this.loginPromise = this.authenticate().finally(() => {
+        this.loginPromise = undefined;
+      });
+    }
+    return this.loginPromise;
+  }
 
-      this.log.info('Succsessfully authinticated, working with version: ', response.data.version);
+  private async authenticate(): Promise<number> {
+    this.log.debug('Starting login...');
 
-      const config: AxiosRequestConfig = {
-        httpsAgent: this.httpsAgent,
-        baseURL: this.crestronUri,
-        headers: {
-          'Crestron-RestAPI-AuthKey': response.data.authkey,
-        },
-      };
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.get(
+          '/login',
+          {
+            httpsAgent: this.httpsAgent,
+            baseURL: this.crestronUri,
+            headers: {
+              Accept: 'application/json',
+              'Crestron-RestAPI-AuthToken': this.apiToken,
+            },
+          },
+        );
 
-      this.axiosClient = axios.create(
-        config,
-      );
+        this.log.info('Succsessfully authinticated, working with version: ', response.data.version);
 
-      this.lastLogin = new Date().getTime();
-      return this.lastLogin;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        this.log.error('Login error: ', error.message);
-        return this.lastLogin;
-      } else {
-        this.log.error('Login unexpected error: ', error);
+        this.authKey = response.data.authkey;
+        this.lastLogin = new Date().getTime();
         return this.lastLogin;
+      } catch (error) {
+        if (isTransientError(error) && attempt < MAX_RETRIES) {
+          this.setConnectionState('degraded');
+          const delay = retryDelay(attempt);
+          this.log.debug(`Login failed (${(error as AxiosError).message}), retrying in ${delay} ms`);
+          await sleep(delay);
+          continue;
+        }
+
+        this.authKey = undefined;
+        this.setConnectionState('offline');
+        if (axios.isAxiosError(error)) {
+          this.log.error('Login error: ', error.message);
+        } else {
+          this.log.error('Login unexpected error: ', error);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Every request waits for a valid session and carries its auth key. Requests rejected because the processor
+   * dropped the session log in again and are replayed once, transient errors are retried with backoff.
+   */
+  private createAxiosClient(): AxiosInstance {
+    const client = axios.create({
+      httpsAgent: this.httpsAgent,
+      baseURL: this.crestronUri,
+    });
+
+    client.interceptors.request.use(async config => {
+      try {
+        await this.login();
+      } catch (error) {
+        // not an AxiosError of this request, so it isn't replayed
+        throw new Error(`Not logged in to the Crestron processor: ${(error as Error).message}`);
+      }
+      config.headers = { ...config.headers, [AUTH_KEY_HEADER]: this.authKey! };
+      const { deadline } = config as RetryRequestConfig;
+      if (deadline !== undefined) {
+        // whatever is left after the login and earlier attempts, a timeout of 0 would wait forever
+        config.timeout = Math.max(deadline - Date.now(), 1);
       }
+      return config;
+    });
+
+    client.interceptors.response.use(
+      response => {
+        this.setConnectionState('connected');
+        return response;
+      },
+      error => this.recoverRequest(client, error),
+    );
+
+    return client;
+  }
+
+  private async recoverRequest(client: AxiosInstance, error: unknown) {
+    // failed logins and requests that never got a config have nothing to replay
+    if (!axios.isAxiosError(error) || !error.config) {
+      throw error;
+    }
+    const config = error.config as RetryRequestConfig;
+
+    if (isAuthError(error) && !config.reauthenticated) {
+      // only the first request failing with the current key drops the session, the others wait for its login
+      if (config.headers?.[AUTH_KEY_HEADER] === this.authKey) {
+        this.log.warn(`Crestron session rejected (${error.message}), logging in again`);
+        this.authKey = undefined;
+      }
+      this.setConnectionState('reauthenticating');
+      config.reauthenticated = true;
+      return client.request(config);
     }
+
+    const retries = config.retries || 0;
+    if (isTransientError(error) && retries < MAX_RETRIES) {
+      this.setConnectionState('degraded');
+      const delay = retryDelay(retries);
+      if (config.noRetry || (config.deadline !== undefined && Date.now() + delay >= config.deadline)) {
+        // repeated by the caller anyway, or out of time - one failed attempt doesn't take the processor offline
+        throw error;
+      }
+      this.log.debug(`Request ${config.method?.toUpperCase()} ${config.url} failed (${error.message}), retrying in ${delay} ms`);
+      config.retries = retries + 1;
+      await sleep(delay);
+      return client.request(config);
+    }
+
+    // any other answer, e.g. for an endpoint this firmware doesn't have, still proves the processor is reachable
+    this.setConnectionState(isTransientError(error) || isAuthError(error) ? 'offline' : 'connected');
+    throw error;
   }
 
   public async getDoorLockState(id: number) {
-    await this.login();
 
     try {
       const response = await this.axiosClient.get(`/doorlocks/${id}`);
@@ -546,11 +997,10 @@ export class CrestronClient {
 
   public async lockDoor(id: number) {
     this.log.debug('Locking door with ID:', id);
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(`/doorlocks/lock/${id}`);
       this.log.debug('Door locked successfully: ', response.data);
+      this.notifyWrite('doorlocks');
       return response.data;
     } catch (error) {
       this.log.error('Error locking door:', error);
@@ -559,11 +1009,10 @@ export class CrestronClient {
 
   public async unlockDoor(id: number) {
     this.log.debug('Unlocking door with ID:', id);
-
-    await this.login();
     try {
       const response = await this.axiosClient.post(`/doorlocks/unlock/${id}`);
       this.log.debug('Door unlocked successfully: ', response.data);
+      this.notifyWrite('doorlocks');
       return response.data;
     } catch (error) {
       this.log.error('Error unlocking door:', error);
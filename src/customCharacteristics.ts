@@ -0,0 +1,33 @@
+import { API, Characteristic, WithUUID } from 'homebridge';
+
+/**
+ * Custom characteristics, the Home app doesn't show them but Eve and similar apps do
+ */
+export interface CustomCharacteristics {
+  TransitionTime: WithUUID<new () => Characteristic>;
+}
+
+export function createCustomCharacteristics(api: API): CustomCharacteristics {
+  const hap = api.hap;
+
+  /**
+   * Fade time in seconds used by a dimmer for the changes made from HomeKit
+   */
+  class TransitionTime extends hap.Characteristic {
+    static readonly UUID = 'E8F6A5C2-3B1D-4C8E-9F47-2A6D1B3C5E01';
+
+    constructor() {
+      super('Transition Time', TransitionTime.UUID, {
+        format: hap.Formats.FLOAT,
+        unit: hap.Units.SECONDS,
+        minValue: 0,
+        maxValue: 60,
+        minStep: 0.1,
+        perms: [hap.Perms.PAIRED_READ, hap.Perms.PAIRED_WRITE, hap.Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  return { TransitionTime };
+}
@@ -0,0 +1,59 @@
+import { DeviceFilter } from '../src/deviceFilter';
+import { CrestronDevice } from '../src/crestronClient';
+import { Logger } from 'homebridge';
+
+const device = (id: number, name: string, roomName: string, type = 'Dimmer', subType = type): CrestronDevice => ({
+  id, name: `${roomName} ${name}`, type, subType, roomId: id * 10, roomName, status: false, level: 0, position: 0,
+});
+
+describe('DeviceFilter', () => {
+  const log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+  const kitchenLight = device(1, 'Ceiling', 'Kitchen');
+  const utilityLight = device(2, 'Ceiling', 'Utility Room');
+  const allOff = device(3, 'All Off', 'Kitchen', 'Scene', 'Lighting');
+  const gate = device(4, 'Gate', 'Outside', 'Scene', 'genericIO');
+
+  it('should expose everything without rules', () => {
+    const filter = new DeviceFilter(log);
+
+    expect(filter.filter([kitchenLight, utilityLight, allOff, gate])).toHaveLength(4);
+  });
+
+  it('should exclude by room name, name glob and scene type', () => {
+    const filter = new DeviceFilter(log, {
+      exclude: [
+        { rooms: ['utility room'] },
+        { names: ['* All Off'], sceneTypes: ['Lighting'] },
+      ],
+    });
+
+    expect(filter.filter([kitchenLight, utilityLight, allOff, gate])).toEqual([kitchenLight, gate]);
+  });
+
+  it('should only expose included devices', () => {
+    const filter = new DeviceFilter(log, {
+      include: [{ rooms: ['10'] }, { ids: [4] }],
+    });
+
+    expect(filter.filter([kitchenLight, utilityLight, allOff, gate])).toEqual([kitchenLight, gate]);
+  });
+
+  it('should match names with regular expressions', () => {
+    const filter = new DeviceFilter(log, {
+      exclude: [{ names: ['/^utility/i'] }],
+    });
+
+    expect(filter.isExposed(utilityLight)).toBe(false);
+    expect(filter.isExposed(kitchenLight)).toBe(true);
+  });
+
+  it('should ignore invalid regular expressions', () => {
+    const filter = new DeviceFilter(log, {
+      exclude: [{ names: ['/[/'] }],
+    });
+
+    expect(filter.isExposed(kitchenLight)).toBe(true);
+    expect(log.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice } from './crestronClient';
+
+/**
+ * A filter rule from the config. A rule matches a device when every field it sets matches,
+ * a field matches when any of its values does.
+ */
+export interface FilterRule {
+  rooms?: Array<string | number>; // room names or ids
+  ids?: number[];
+  names?: string[]; // globs (e.g. "* All Off") or regular expressions (e.g. "/^Utility/i")
+  sceneTypes?: string[]; // scene subType, e.g. "Lighting", "Shade", "genericIO"
+}
+
+/**
+ * The `filters` section of the config
+ */
+export interface FilterConfig {
+  include?: FilterRule[];
+  exclude?: FilterRule[];
+}
+
+type CompiledRule = {
+  rooms?: string[];
+  ids?: number[];
+  names?: RegExp[];
+  sceneTypes?: string[];
+};
+
+/**
+ * Decides which Crestron devices are exposed to HomeKit.
+ * A device is exposed when it matches any include rule (or there are none) and no exclude rule.
+ */
+export class DeviceFilter {
+  private readonly include: CompiledRule[];
+  private readonly exclude: CompiledRule[];
+
+  constructor(
+    private readonly log: Logger,
+    config: FilterConfig = {},
+  ) {
+    this.include = (config.include || []).map(rule => this.compile(rule));
+    this.exclude = (config.exclude || []).map(rule => this.compile(rule));
+  }
+
+  public isExposed(device: CrestronDevice): boolean {
+    if (this.include.length > 0 && !this.include.some(rule => this.matches(rule, device))) {
+      return false;
+    }
+    return !this.exclude.some(rule => this.matches(rule, device));
+  }
+
+  public filter(devices: CrestronDevice[], verbose = false): CrestronDevice[] {
+    const exposed = devices.filter(device => this.isExposed(device));
+
+    if (verbose && exposed.length < devices.length) {
+      const filtered = devices.filter(device => !exposed.includes(device));
+      this.log.info(`Filters hide ${filtered.length} of ${devices.length} devices`);
+      this.log.debug('Hidden devices:', filtered.map(device => device.name).join(', '));
+    }
+
+    return exposed;
+  }
+
+  private matches(rule: CompiledRule, device: CrestronDevice): boolean {
+    if (rule.rooms && !rule.rooms.some(room => room === device.roomId.toString() || room === device.roomName.toLowerCase())) {
+      return false;
+    }
+    if (rule.ids && !rule.ids.includes(device.id)) {
+      return false;
+    }
+    if (rule.names && !rule.names.some(name => name.test(device.name))) {
+      return false;
+    }
+    if (rule.sceneTypes && !(device.type === 'Scene' && rule.sceneTypes.includes(device.subType.toLowerCase()))) {
+      return false;
+    }
+    return true;
+  }
+
+  private compile(rule: FilterRule): CompiledRule {
+    const compiled: CompiledRule = {};
+
+    if (rule.rooms?.length) {
+      compiled.rooms = rule.rooms.map(room => room.toString().toLowerCase());
+    }
+    if (rule.ids?.length) {
+      compiled.ids = rule.ids.map(id => Number(id));
+    }
+    if (rule.names?.length) {
+      compiled.names = rule.names
+        .map(name => this.toRegExp(name))
+        .filter((name): name is RegExp => name !== undefined);
+    }
+    if (rule.sceneTypes?.length) {
+      compiled.sceneTypes = rule.sceneTypes.map(sceneType => sceneType.toLowerCase());
+    }
+
+    return compiled;
+  }
+
+  /**
+   * "/pattern/flags" is taken as a regular expression, anything else as a case insensitive glob
+   */
+  private toRegExp(pattern: string): RegExp | undefined {
+    const regex = pattern.match(/^\/(.*)\/([a-z]*)$/);
+
+    try {
+      if (regex) {
+        return new RegExp(regex[1], regex[2]);
+      }
+
+      const glob = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+      return new RegExp(`^${glob}$`, 'i');
+    } catch (error) {
+      this.log.error('Invalid name pattern in filters, ignoring it:', pattern);
+      return undefined;
+    }
+  }
+}
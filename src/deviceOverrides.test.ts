@@ -0,0 +1,31 @@
+import { DeviceOverrides } from '../src/deviceOverrides';
+import { CrestronDevice } from '../src/crestronClient';
+import { Logger } from 'homebridge';
+
+const shade = (id: number, position: number): CrestronDevice => ({
+  id, name: `Shade ${id}`, type: 'Shade', subType: 'Shade', roomId: 10, roomName: 'Living Room', status: false, level: 0, position,
+});
+
+describe('DeviceOverrides', () => {
+  const log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+  it('should merge the motors of a shade and hide the other ones', () => {
+    const overrides = new DeviceOverrides(log, [{ id: 1, motors: [2] }, { id: 2, invert: true }]);
+
+    const devices = overrides.mergeShadeMotors([shade(1, 65535), shade(2, 0), shade(3, 1000)]);
+
+    expect(devices.map(device => device.id)).toEqual([1, 3]);
+    expect(devices[0].motors).toEqual([{ id: 1, invert: false }, { id: 2, invert: true }]);
+    expect(devices[0].position).toBe(65535);
+    expect(devices[1]).toEqual(shade(3, 1000));
+  });
+
+  it('should flip the position of an inverted shade', () => {
+    const overrides = new DeviceOverrides(log, [{ id: 1, invert: true }]);
+
+    const [device] = overrides.mergeShadeMotors([shade(1, 15535)]);
+
+    expect(device.position).toBe(50000);
+    expect(device.motors).toEqual([{ id: 1, invert: true }]);
+  });
+});
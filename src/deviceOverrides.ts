@@ -0,0 +1,131 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice, ShadeMotor } from './crestronClient';
+
+/**
+ * Level a dimmer turns on with from HomeKit
+ */
+export type OnBehavior = 'last' | 'full' | 'preset';
+
+export type TiltOverride = 'horizontal' | 'vertical' | 'none';
+
+/**
+ * How a scene is shown in HomeKit: a switch that turns itself off after recalling the scene, a button that only
+ * triggers automations when the scene is recalled, or a switch mirroring the Crestron scene status
+ */
+export type ScenePresentation = 'momentary' | 'stateless' | 'status';
+
+export type OverrideService = 'Lightbulb' | 'Switch' | 'Outlet' | 'Fan' | 'WindowCovering' | 'Door' | 'Window';
+
+/**
+ * Dimmer fade times in seconds, per kind of change made from HomeKit
+ */
+export interface FadeTimes {
+  on?: number;
+  off?: number;
+  brightness?: number;
+}
+
+/**
+ * An entry of the `deviceOverrides` section of the config
+ */
+export interface DeviceOverride {
+  id: number;
+  name?: string;
+  service?: OverrideService;
+  // Thermostat limits, in Celsius as HomeKit uses them
+  minTemperature?: number;
+  maxTemperature?: number;
+  temperatureStep?: number;
+  deadband?: number; // minimum distance between the heat and cool setpoints in Auto mode
+  displayUnits?: 'celsius' | 'fahrenheit';
+  hysteresis?: number; // how far past a setpoint a thermostat that doesn't report its running state starts heating or cooling
+  fadeTimes?: FadeTimes;
+  onBehavior?: OnBehavior;
+  onPreset?: number; // percent, used with the 'preset' behavior
+  // Shades
+  invert?: boolean;
+  motors?: number[]; // ids of the other motors of the shade, they are hidden and follow this one
+  tilt?: TiltOverride;
+  // Scenes
+  scenePresentation?: ScenePresentation;
+}
+
+/**
+ * Per-device settings from the config, keyed by Crestron id.
+ * They are applied to every device list (names) and read by the accessories when they are created or restored from cache.
+ */
+export class DeviceOverrides {
+  private readonly overrides = new Map<number, DeviceOverride>();
+
+  constructor(
+    private readonly log: Logger,
+    overrides: DeviceOverride[] = [],
+  ) {
+    for (const override of overrides) {
+      if (override.id === undefined) {
+        this.log.warn('Ignoring device override without an id:', override);
+        continue;
+      }
+      this.overrides.set(Number(override.id), override);
+    }
+  }
+
+  public get(id: number): DeviceOverride {
+    return this.overrides.get(id) || { id };
+  }
+
+  /**
+   * Returns the device with its overridden display name
+   */
+  public apply(device: CrestronDevice): CrestronDevice {
+    const name = this.overrides.get(device.id)?.name;
+    return name ? { ...device, name } : device;
+  }
+
+  /**
+   * Shades driven by several motors become one shade - the one whose override lists the other motors, which are hidden.
+   * The position of a shade with several or inverted motors is the mean of its (flipped) motor positions.
+   */
+  public mergeShadeMotors(devices: CrestronDevice[]): CrestronDevice[] {
+    const shades = new Map(devices.filter(device => device.type === 'Shade').map(device => [device.id, device]));
+    const hidden = new Set<number>();
+    for (const override of this.overrides.values()) {
+      if (override.motors && shades.has(override.id)) {
+        override.motors.forEach(id => hidden.add(Number(id)));
+      }
+    }
+
+    return devices
+      .filter(device => !hidden.has(device.id))
+      .map(device => {
+        if (device.type !== 'Shade') {
+          return device;
+        }
+
+        const ids = [device.id, ...(this.overrides.get(device.id)?.motors || []).map(Number)].filter(id => shades.has(id));
+        const motors: ShadeMotor[] = ids.map(id => ({ id, invert: this.overrides.get(id)?.invert === true }));
+        if (motors.length === 1 && !motors[0].invert) {
+          return device;
+        }
+
+        const positions = motors.map(motor => {
+          const position = shades.get(motor.id)!.position;
+          return motor.invert ? 65535 - position : position;
+        });
+        const position = Math.round(positions.reduce((sum, value) => sum + value, 0) / positions.length);
+        return { ...device, position, motors };
+      });
+  }
+
+  /**
+   * Returns the service type configured for the device if the accessory supports it, otherwise the default one
+   */
+  public serviceFor(id: number, supported: OverrideService[]): OverrideService {
+    const service = this.overrides.get(id)?.service;
+    if (service && !supported.includes(service)) {
+      this.log.warn(`Service "${service}" is not supported for device ${id}, use one of:`, supported.join(', '));
+      return supported[0];
+    }
+    return service || supported[0];
+  }
+}
@@ -1,6 +1,6 @@
-import { API, Logger, PlatformConfig } from 'homebridge';
+import { API, Logger, PlatformAccessory, PlatformConfig } from 'homebridge';
 import { CrestronHomePlatform } from '../src/platform';
-import { CrestronClient } from '../src/crestronClient';
+import { CrestronClient, CrestronDevice, configType } from '../src/crestronClient';
 import { mockDeep } from 'jest-mock-extended';
 
 const mockedLogger = mockDeep<Logger>();
@@ -12,6 +12,7 @@ const mockedAPI: API = {
     },
   },
   platformAccessory: jest.fn(),
+  unregisterPlatformAccessories: jest.fn(),
   on: jest.fn(),
 } as unknown as API;
 
@@ -40,14 +41,79 @@ describe('CrestronHomePlatform', () => {
     expect(mockedCrestronClient.getDevices).toHaveBeenCalledTimes(1);
   });
 
-  test('should call getDevices on CrestronClient when updateDevices is called', async () => {
+  test('should remove cached accessories of devices that no longer exist once the grace period is over', () => {
+    (mockedAPI.hap.uuid.generate as jest.Mock).mockImplementation(id => `uuid-${id}`);
+    const platform = new CrestronHomePlatform(mockedLogger, { ...config, staleAccessoryGracePeriod: 0 }, mockedAPI);
+    const present = { UUID: 'uuid-1', displayName: 'Kitchen Light', context: { device: { id: 1 } } };
+    const removed = { UUID: 'uuid-2', displayName: 'Old Light', context: { device: { id: 2 } } };
+    platform.configureAccessory(present as unknown as PlatformAccessory);
+    platform.configureAccessory(removed as unknown as PlatformAccessory);
+
+    platform.removeStaleAccessories([{ id: 1 } as CrestronDevice]);
+
+    expect(mockedAPI.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [removed]);
+    expect(platform.accessories).toEqual([present]);
+  });
+
+  test('should keep missing accessories during the grace period', () => {
+    (mockedAPI.hap.uuid.generate as jest.Mock).mockImplementation(id => `uuid-${id}`);
     const platform = new CrestronHomePlatform(mockedLogger, config, mockedAPI);
-    platform.crestronClient = mockedCrestronClient;
+    const removed = { UUID: 'uuid-2', displayName: 'Old Light', context: { device: { id: 2 } } };
+    platform.configureAccessory(removed as unknown as PlatformAccessory);
 
-    mockedCrestronClient.getDevices = jest.fn().mockResolvedValue([]);
+    platform.removeStaleAccessories([{ id: 1 } as CrestronDevice]);
+
+    expect(mockedAPI.unregisterPlatformAccessories).not.toHaveBeenCalled();
+    expect(platform.accessories).toHaveLength(1);
+  });
 
-    await platform.updateDevices();
+  test('should replace the accessories of mapped genericIO scenes with the mapping accessory', () => {
+    (mockedAPI.hap.uuid.generate as jest.Mock).mockImplementation(id => `uuid-${id}`);
+    const platform = new CrestronHomePlatform(mockedLogger, {
+      ...config,
+      staleAccessoryGracePeriod: 0,
+      sceneMappings: [{ name: 'Gate', service: 'GarageDoorOpener', openScene: 5, closeScene: 6, stateId: 7 }],
+    }, mockedAPI);
+    const mapping = { UUID: 'uuid-scene-mapping-Gate', displayName: 'Gate', context: { sceneMapping: { name: 'Gate' } } };
+    const openScene = { UUID: 'uuid-5', displayName: 'Gate Open', context: { device: { id: 5 } } };
+    platform.configureAccessory(mapping as unknown as PlatformAccessory);
+    platform.configureAccessory(openScene as unknown as PlatformAccessory);
 
-    expect(mockedCrestronClient.getDevices).toHaveBeenCalledTimes(1);
+    platform.removeStaleAccessories([{ id: 5 }, { id: 6 }, { id: 7 }] as CrestronDevice[]);
+
+    expect(mockedAPI.unregisterPlatformAccessories).toHaveBeenCalledWith(expect.any(String), expect.any(String), [openScene]);
+    expect(platform.accessories).toEqual([mapping]);
+  });
+
+  test('should keep room on the bridge for the scene mapping accessories', () => {
+    (mockedAPI.hap.uuid.generate as jest.Mock).mockImplementation(id => `uuid-${id}`);
+    (configType as jest.Mock).mockImplementation(jest.requireActual('../src/crestronClient').configType);
+    const platform = new CrestronHomePlatform(mockedLogger, {
+      ...config,
+      sceneMappings: [{ name: 'Gate', service: 'GarageDoorOpener', openScene: 1005, closeScene: 1006 }],
+    }, mockedAPI);
+    const lights = Array.from({ length: 150 }, (_, index) =>
+      ({ id: index + 1, name: `Light ${index + 1}`, type: 'Dimmer', roomId: 10, roomName: 'Kitchen' }) as CrestronDevice);
+    const scenes = [1005, 1006].map(id =>
+      ({ id, name: `Gate ${id}`, type: 'Scene', subType: 'genericIO', roomId: 10, roomName: 'Kitchen' }) as CrestronDevice);
+
+    const selected = platform.selectDevices([...scenes, ...lights]);
+
+    // 148 lights and the gate make the 149 accessories a bridge holds, the mapped scenes have none of their own
+    expect(selected.filter(device => device.type === 'Dimmer')).toHaveLength(148);
+    expect(selected.filter(device => device.type === 'Scene')).toHaveLength(2);
+  });
+
+  test('should expose grouped devices through their room accessory without the room prefix', () => {
+    (mockedAPI.hap.uuid.generate as jest.Mock).mockImplementation(id => `uuid-${id}`);
+    (configType as jest.Mock).mockImplementation(jest.requireActual('../src/crestronClient').configType);
+    const platform = new CrestronHomePlatform(mockedLogger, { ...config, roomGrouping: true }, mockedAPI);
+    const light = { id: 1, name: 'Kitchen Ceiling', type: 'Dimmer', roomId: 10, roomName: 'Kitchen' } as CrestronDevice;
+    const thermostat = { id: 2, name: 'Kitchen Thermostat', type: 'Thermostat', roomId: 10, roomName: 'Kitchen' } as CrestronDevice;
+
+    expect(platform.accessoryUUID(light)).toBe('uuid-room-10');
+    expect(platform.serviceName(light)).toBe('Ceiling');
+    expect(platform.accessoryUUID(thermostat)).toBe('uuid-2');
+    expect(platform.serviceName(thermostat)).toBe('Kitchen Thermostat');
   });
 });
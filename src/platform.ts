@@ -1,4 +1,5 @@
-import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service, Characteristic } from 'homebridge';
+import path from 'path';
+import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service, Characteristic, WithUUID } from 'homebridge';
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { CrestronHomeShade } from './CrestronHomeShade';
@@ -7,13 +8,37 @@ import { CrestronHomeScene } from './CrestronHomeScene';
 import { CrestronHomeThermostat } from './CrestronHomeThermostat';
 import { CrestronHomeDoorLock } from './CrestronHomeDoorLock';
 import { CrestronHomeSecuritySystem } from './CrestronHomeSecuritySystem';
-
-
-import { CrestronClient, CrestronDevice } from './crestronClient';
+import { CrestronHomeShadeGroup } from './CrestronHomeShadeGroup';
+import { CrestronHomeSceneMapping } from './CrestronHomeSceneMapping';
+import { CrestronHomeAuthorizeSwitch } from './CrestronHomeAuthorizeSwitch';
+
+
+import { CrestronClient, CrestronDevice, ConnectionState, configType } from './crestronClient';
+import { DeviceUpdateEngine } from './updateEngine';
+import { PollScheduler, requiredCategories } from './pollScheduler';
+import { BridgeAssigner, MAX_BRIDGE_ACCESSORIES } from './bridgeSplit';
+import { DeviceFilter } from './deviceFilter';
+import { DeviceOverrides, FadeTimes, OnBehavior, ScenePresentation } from './deviceOverrides';
+import { CustomCharacteristics, createCustomCharacteristics } from './customCharacteristics';
+import { CircadianLighting } from './circadian';
+import { ShadeMotionConfig } from './shadeMotion';
+import { ShadeGroup, ShadeGroupsConfig, buildShadeGroups } from './shadeGroups';
+import { pairScenes } from './scenePairs';
+import { SceneMappingConfig, mappedSceneIds, validSceneMappings } from './sceneMappings';
+import { SecurityModeMap } from './securityStates';
+import { SafetyPolicy } from './safetyPolicy';
+
+// Device types that are exposed as services of their room's accessory when `roomGrouping` is enabled
+const GROUPED_TYPES = ['Switch', 'Dimmer', 'Shade', 'Scene'];
+
+// Device types whose HomeKit actions the safety policy guards, genericIO scenes (gate, garage and door relays) too
+const GUARDED_TYPES = ['DoorLock', 'SecuritySystem'];
 
 export interface CrestronAccessory {
   crestronId: number;
   updateState(device: CrestronDevice): void;
+  // release timers and subscriptions when the device is removed
+  dispose?(): void;
 }
 
 /**
@@ -28,11 +53,41 @@ export class CrestronHomePlatform implements DynamicPlatformPlugin {
   public crestronClient: CrestronClient;
   public readonly enabledTypes: string[] = [];
   public readonly updateInterval: number = 30 * 1000;
+  public readonly staleGracePeriod: number = 10 * 60 * 1000;
+  public readonly deviceOverrides: DeviceOverrides;
+  public readonly roomGrouping: boolean = false;
+  public readonly stripRoomPrefix: boolean = false;
+  public readonly fadeTimes: FadeTimes = {};
+  public readonly transitionTimeCharacteristic: boolean = false;
+  public readonly onBehavior: OnBehavior = 'last';
+  public readonly onPreset?: number;
+  public readonly circadian: CircadianLighting;
+  public readonly shadeMotion: ShadeMotionConfig = {};
+  public readonly shadeGroups: ShadeGroupsConfig = {};
+  public readonly scenePresentation: ScenePresentation = 'momentary';
+  public readonly pairScenes: boolean = false;
+  public readonly sceneMappings: SceneMappingConfig[] = [];
+  public readonly securityModes: SecurityModeMap = {};
+  public readonly safety: SafetyPolicy;
 
   // this is used to track restored cached accessories
   public readonly accessories: PlatformAccessory[] = [];
   private crestronDevices: CrestronAccessory[] = [];
-
+  private shadeGroupAccessories: CrestronHomeShadeGroup[] = [];
+  private sceneMappingAccessories: CrestronHomeSceneMapping[] = [];
+  private authorizeSwitch?: CrestronHomeAuthorizeSwitch;
+  // genericIO scenes driven by a scene mapping, they get no accessory of their own
+  private mappedScenes: Set<number>;
+  private updateEngine: DeviceUpdateEngine;
+  private pollScheduler: PollScheduler;
+  private bridgeAssigner: BridgeAssigner;
+  private deviceFilter: DeviceFilter;
+  // UUIDs of cached accessories that are no longer returned by Crestron, with the time they went missing
+  private missingSince = new Map<string, number>();
+  // Crestron ids of devices whose own connectionStatus is offline
+  private offlineDevices = new Set<number>();
+  private connectionState: ConnectionState = 'connected';
+  private customCharacteristics?: CustomCharacteristics;
 
   constructor(
     public readonly log: Logger,
@@ -44,6 +99,44 @@ export class CrestronHomePlatform implements DynamicPlatformPlugin {
     this.enabledTypes = config.enabledTypes;
     this.crestronClient = new CrestronClient(config.crestronHost, config.token, log);
     this.updateInterval = (config.updateInterval || 30) * 1000;
+    this.staleGracePeriod = config.removeStaleAccessories === false
+      ? -1
+      : (config.staleAccessoryGracePeriod ?? 10) * 60 * 1000;
+
+    this.roomGrouping = config.roomGrouping === true;
+    this.stripRoomPrefix = config.stripRoomPrefix === true;
+    this.fadeTimes = config.fadeTimes || {};
+    this.transitionTimeCharacteristic = config.transitionTimeCharacteristic === true;
+    this.onBehavior = config.onBehavior || 'last';
+    this.onPreset = config.onPreset;
+    this.circadian = new CircadianLighting(log, config.circadian);
+    this.shadeMotion = config.shadeMotion || {};
+    this.shadeGroups = config.shadeGroups || {};
+    this.scenePresentation = config.scenePresentation || 'momentary';
+    this.pairScenes = config.pairScenes === true;
+    this.sceneMappings = validSceneMappings(log, config.sceneMappings);
+    this.mappedScenes = mappedSceneIds(this.sceneMappings);
+    this.securityModes = config.securityModes || {};
+    const auditLog = config.safety?.auditLog;
+    this.safety = new SafetyPolicy(log, config.safety, auditLog ? path.resolve(api.user.storagePath(), auditLog) : undefined);
+
+    this.deviceFilter = new DeviceFilter(log, config.filters);
+    this.deviceOverrides = new DeviceOverrides(log, config.deviceOverrides);
+    this.bridgeAssigner = new BridgeAssigner(log, config.bridgeSplit);
+
+    this.pollScheduler = new PollScheduler(
+      log,
+      requiredCategories(this.enabledTypes || []),
+      this.updateInterval,
+      config.pollSchedule || {},
+      async categories => this.selectDevices(await this.crestronClient.pollDevices(categories, this.enabledTypes)),
+    );
+    // poll the written category quickly for a while, so the result of a HomeKit command shows up fast
+    this.crestronClient.onWrite(category => this.pollScheduler.burst(category));
+    this.crestronClient.onConnectionChange(this.connectionChanged.bind(this));
+
+    this.updateEngine = new DeviceUpdateEngine(log, this.applyDeviceUpdate.bind(this), this.removeStaleAccessories.bind(this));
+    this.updateEngine.addSource(this.pollScheduler);
     this.log.debug('Finished initializing platform:', this.config.name);
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
@@ -52,14 +145,30 @@ export class CrestronHomePlatform implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', () => {
       log.debug('Executed didFinishLaunching callback');
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      // run the method to discover / register your devices as accessories, then start listening for changes
+      this.discoverDevices().then(() => {
+        this.updateEngine.start();
+        this.circadian.start();
+      });
+    });
 
-      log.debug('Will update devices every ms:', this.updateInterval);
-      setInterval(this.updateDevices.bind(this), this.updateInterval);
+    this.api.on('shutdown', () => {
+      this.updateEngine.stop();
+      this.circadian.stop();
+      this.safety.stop();
     });
   }
 
+  /**
+   * Characteristics defined by this plugin, created on first use
+   */
+  get CustomCharacteristic(): CustomCharacteristics {
+    if (!this.customCharacteristics) {
+      this.customCharacteristics = createCustomCharacteristics(this.api);
+    }
+    return this.customCharacteristics;
+  }
+
   /**
    * This function is invoked when homebridge restores cached accessories from disk at startup.
    * It should be used to setup event handlers for characteristics and update respective values.
@@ -78,84 +187,358 @@ export class CrestronHomePlatform implements DynamicPlatformPlugin {
    */
   async discoverDevices() {
 
-    const crestronDevices = await this.crestronClient.getDevices(this.enabledTypes);
+    const crestronDevices = this.selectDevices(await this.crestronClient.getDevices(this.enabledTypes), true);
 
-    if (crestronDevices.length > 149) {
-      this.log.warn('Found more than 149 devices, Homebridge will crash - truncating to 149 !!!');
-      crestronDevices.length = 149;
+    // getDevices returns nothing when the processor is unreachable, never treat that as "everything was removed"
+    if (crestronDevices.length > 0) {
+      this.removeStaleAccessories(crestronDevices);
     }
+
     //this.log.debug(crestronDevices);
 
+    // remember discovered states, so the update engine only reports what changes from now on
+    this.updateEngine.seed(crestronDevices);
+
     // loop over the discovered devices and register each one if it has not already been registered
     for (const device of crestronDevices) {
+      this.exposeDevice(device);
+    }
 
-      // generate a unique id for the accessory this should be generated from
-      // something globally unique, but constant, for example, the device serial
-      // number or MAC address
-      const uuid = this.api.hap.uuid.generate(device.id.toString());
-
-      // see if an accessory with the same uuid has already been registered and restored from
-      // the cached devices we stored in the `configureAccessory` method above
-      const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
-
-      if (existingAccessory) {
-        // the accessory already exists
-        this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
-
-        // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-        existingAccessory.context.device = device;
-        this.api.updatePlatformAccessories([existingAccessory]);
-
-        // create the accessory handler for the restored accessory
-        // this is imported from `platformAccessory.ts`
-        // new CrestronHomePlatformAccessory(this, existingAccessory);
-        this.createCrestronAccessory(existingAccessory);
-
-        // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, eg.:
-        // remove platform accessories when no longer present
-        // this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-        // this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
-      } else {
-        // the accessory does not yet exist, so we need to create it
-        // create a new accessory
-        const accessory = new this.api.platformAccessory(device.name, uuid);
-
-        // store a copy of the device object in the `accessory.context`
-        // the `context` property can be used to store any data about the accessory you may need
-        accessory.context.device = device;
-
-        // create the accessory handler for the newly create accessory
-        // this is imported from `platformAccessory.ts`
-        // new CrestronHomePlatformAccessory(this, accessory);
-        if (this.createCrestronAccessory(accessory)) {
-          // link the accessory to your platform
-          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-          this.accessories.push(accessory);
-        }
+    for (const group of buildShadeGroups(this.log, this.shadeGroups, crestronDevices, true)) {
+      this.exposeShadeGroup(group);
+    }
+
+    for (const mapping of this.localSceneMappings(crestronDevices)) {
+      this.exposeSceneMapping(mapping, crestronDevices.find(device => device.id === mapping.stateId));
+    }
+
+    if (this.needsAuthorizeSwitch(crestronDevices)) {
+      this.exposeAuthorizeSwitch();
+    }
+  }
+
+  /**
+   * Create the switch authorizing disarm and unlock actions, restored from cache if it has already been registered
+   */
+  exposeAuthorizeSwitch() {
+    const uuid = this.authorizeSwitchUUID();
+    const name = this.safety.authorizeName;
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    const accessory = existingAccessory || new this.api.platformAccessory(name, uuid);
+
+    this.log.info(existingAccessory ? 'Restoring existing accessory from cache:' : 'Adding new accessory:', name);
+    accessory.context.authorizeSwitch = true;
+    accessory.displayName = name;
+    this.authorizeSwitch = new CrestronHomeAuthorizeSwitch(this, accessory, this.safety);
+
+    if (existingAccessory) {
+      this.api.updatePlatformAccessories([accessory]);
+    } else {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    }
+  }
+
+  authorizeSwitchUUID(): string {
+    return this.api.hap.uuid.generate('safety-authorize');
+  }
+
+  /**
+   * The authorize switch is only exposed by instances exposing a lock, security system, genericIO scene or scene
+   * mapping whose actions need it
+   */
+  private needsAuthorizeSwitch(devices: CrestronDevice[]): boolean {
+    return this.safety.needsAuthorizeSwitch && devices.some(device =>
+      GUARDED_TYPES.includes(configType(device.type)) || (device.type === 'Scene' && device.subType === 'genericIO'));
+  }
+
+  /**
+   * Create the accessory of a scene mapping, restored from cache if it has already been registered
+   */
+  exposeSceneMapping(mapping: SceneMappingConfig, stateDevice?: CrestronDevice) {
+    const uuid = this.sceneMappingUUID(mapping);
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    const accessory = existingAccessory || new this.api.platformAccessory(mapping.name, uuid);
+
+    this.log.info(existingAccessory ? 'Restoring existing accessory from cache:' : 'Adding new accessory:', mapping.name);
+    accessory.context.sceneMapping = mapping;
+    accessory.displayName = mapping.name;
+    this.sceneMappingAccessories.push(new CrestronHomeSceneMapping(this, accessory, mapping, stateDevice));
+
+    if (existingAccessory) {
+      this.api.updatePlatformAccessories([accessory]);
+    } else {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    }
+  }
+
+  sceneMappingUUID(mapping: SceneMappingConfig): string {
+    return this.api.hap.uuid.generate(`scene-mapping-${mapping.name}`);
+  }
+
+  /**
+   * Mappings whose open scene is exposed by this instance
+   */
+  private localSceneMappings(devices: CrestronDevice[]): SceneMappingConfig[] {
+    return this.sceneMappings.filter(mapping => devices.some(device => device.id === mapping.openScene));
+  }
+
+  /**
+   * Create the virtual WindowCovering of a shade group, restored from cache if it has already been registered
+   */
+  exposeShadeGroup(group: ShadeGroup) {
+    const uuid = this.shadeGroupUUID(group);
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    const accessory = existingAccessory || new this.api.platformAccessory(group.name, uuid);
+
+    this.log.info(existingAccessory ? 'Restoring existing accessory from cache:' : 'Adding new accessory:', group.name);
+    accessory.context.shadeGroup = { key: group.key, name: group.name, ids: group.members.map(member => member.id) };
+    accessory.displayName = group.name;
+    this.shadeGroupAccessories.push(new CrestronHomeShadeGroup(this, accessory, group));
+
+    if (existingAccessory) {
+      this.api.updatePlatformAccessories([accessory]);
+    } else {
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    }
+  }
+
+  shadeGroupUUID(group: ShadeGroup): string {
+    return this.api.hap.uuid.generate(`shade-group-${group.key}`);
+  }
+
+  /**
+   * Create the accessory handler for a device. Its accessory (or its room's one) is restored from cache
+   * if it has already been registered, otherwise a new accessory is registered.
+   */
+  exposeDevice(device: CrestronDevice) {
+    if (this.mappedScenes.has(device.id)) {
+      return;
+    }
+
+    // generate a unique id for the accessory this should be generated from
+    // something globally unique, but constant, for example, the device serial
+    // number or MAC address
+    const uuid = this.accessoryUUID(device);
+    const grouped = this.isGrouped(device);
+    const name = grouped ? device.roomName : device.name;
+
+    // see if an accessory with the same uuid has already been registered and restored from
+    // the cached devices we stored in the `configureAccessory` method above
+    const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+    const accessory = existingAccessory || new this.api.platformAccessory(name, uuid);
+
+    if (existingAccessory) {
+      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+    }
+
+    // store a copy of the device object in the `accessory.context`
+    // the `context` property can be used to store any data about the accessory you may need
+    if (grouped) {
+      accessory.context.room = { id: device.roomId, name: device.roomName };
+      accessory.context.devices = { ...accessory.context.devices, [device.id]: device };
+    } else {
+      accessory.context.device = device;
+    }
+    accessory.displayName = name;
+    this.trackConnectionStatus(device);
+
+    if (!this.createCrestronAccessory(accessory, device)) {
+      return;
+    }
+
+    if (existingAccessory) {
+      // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`
+      this.api.updatePlatformAccessories([accessory]);
+    } else {
+      // link the accessory to your platform
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.push(accessory);
+    }
+  }
+
+  isGrouped(device: CrestronDevice): boolean {
+    return this.roomGrouping && GROUPED_TYPES.includes(configType(device.type));
+  }
+
+  /**
+   * Returns the UUID of the accessory that exposes the device - its own, or its room's when grouped
+   */
+  accessoryUUID(device: CrestronDevice): string {
+    return this.isGrouped(device)
+      ? this.api.hap.uuid.generate(`room-${device.roomId}`)
+      : this.api.hap.uuid.generate(device.id.toString());
+  }
+
+  /**
+   * Returns the devices this platform instance exposes as accessories - every device list goes through here
+   * before accessories are created or updated
+   */
+  selectDevices(devices: CrestronDevice[], verbose = false): CrestronDevice[] {
+    const mergedDevices = this.deviceOverrides.mergeShadeMotors(
+      this.deviceFilter.filter(devices, verbose).map(device => this.deviceOverrides.apply(device)),
+    );
+    const exposedDevices = this.pairScenes ? pairScenes(mergedDevices) : mergedDevices;
+    if (verbose) {
+      this.bridgeAssigner.report(exposedDevices);
+    }
+
+    const localDevices = this.bridgeAssigner.localDevices(exposedDevices);
+
+    // Homebridge would crash, the bridge assigner warns about it after discovery. Grouped devices share their room's accessory,
+    // mapped scenes are part of their mapping's one. Room is kept for the shade groups, scene mappings and authorize switch.
+    const maxDeviceAccessories = MAX_BRIDGE_ACCESSORIES - this.virtualAccessoryUUIDs(localDevices).length;
+    const accessoryUUIDs = new Set<string>();
+    return localDevices.filter(device => {
+      if (this.mappedScenes.has(device.id)) {
+        return true;
+      }
+      const uuid = this.accessoryUUID(device);
+      if (!accessoryUUIDs.has(uuid) && accessoryUUIDs.size >= maxDeviceAccessories) {
+        return false;
+      }
+      accessoryUUIDs.add(uuid);
+      return true;
+    });
+  }
+
+  /**
+   * UUIDs of the accessories that aren't a device's: the shade groups, scene mappings and authorize switch the devices
+   * make up
+   */
+  private virtualAccessoryUUIDs(devices: CrestronDevice[]): string[] {
+    const uuids = [
+      ...this.localSceneMappings(devices).map(mapping => this.sceneMappingUUID(mapping)),
+      ...buildShadeGroups(this.log, this.shadeGroups, devices).map(group => this.shadeGroupUUID(group)),
+    ];
+    if (this.needsAuthorizeSwitch(devices)) {
+      uuids.push(this.authorizeSwitchUUID());
+    }
+    return uuids;
+  }
+
+  /**
+   * Returns the service of the given type, adding it if needed. Services of the alternative types,
+   * left in the cache when a device override changed, are removed.
+   */
+  getOrReplaceService(accessory: PlatformAccessory, serviceType: WithUUID<typeof Service>, alternatives: WithUUID<typeof Service>[]) {
+    for (const alternative of alternatives) {
+      const staleService = alternative.UUID !== serviceType.UUID && accessory.getService(alternative);
+      if (staleService) {
+        this.log.debug('Removing service replaced by an override:', accessory.displayName, staleService.displayName);
+        accessory.removeService(staleService);
+      }
+    }
+
+    return accessory.getService(serviceType) || accessory.addService(serviceType);
+  }
+
+  /**
+   * Returns the service of the given type for the device. Devices grouped in a room accessory get their own service,
+   * identified by the Crestron id as subtype and linked to the room's primary service.
+   */
+  deviceService(
+    accessory: PlatformAccessory,
+    device: CrestronDevice,
+    serviceType: WithUUID<typeof Service>,
+    alternatives: WithUUID<typeof Service>[] = [],
+  ): Service {
+    if (!accessory.context.room) {
+      return this.getOrReplaceService(accessory, serviceType, alternatives);
+    }
+
+    const subtype = device.id.toString();
+    for (const alternative of alternatives) {
+      const staleService = alternative.UUID !== serviceType.UUID && accessory.getServiceById(alternative, subtype);
+      if (staleService) {
+        this.log.debug('Removing service replaced by an override:', accessory.displayName, staleService.displayName);
+        accessory.removeService(staleService);
       }
     }
+
+    const service = accessory.getServiceById(serviceType, subtype)
+      || accessory.addService(serviceType, this.serviceName(device), subtype);
+
+    const primaryService = accessory.services.find(roomService => roomService.isPrimaryService);
+    if (!primaryService) {
+      service.setPrimaryService(true);
+    } else if (primaryService !== service && !primaryService.linkedServices.includes(service)) {
+      primaryService.addLinkedService(service);
+    }
+
+    return service;
+  }
+
+  /**
+   * Name of the device's service. Devices grouped in a room accessory, or all of them when `stripRoomPrefix` is set,
+   * drop the redundant "Room Name" prefix of Crestron names, as the accessory sits in that room anyway.
+   */
+  serviceName(device: CrestronDevice): string {
+    const prefix = `${device.roomName} `;
+    if ((this.isGrouped(device) || this.stripRoomPrefix) && device.roomName && device.name.startsWith(prefix)) {
+      return device.name.substring(prefix.length);
+    }
+    return device.name;
+  }
+
+  /**
+   * Set the Name of the device's service, and its ConfiguredName unless it was renamed in the Home app -
+   * names set by the user are kept in the accessory context, so they survive restarts and renames in Crestron
+   */
+  nameService(accessory: PlatformAccessory, service: Service, device: CrestronDevice) {
+    const name = this.serviceName(device);
+    const key = service.subtype || service.UUID;
+    const configuredNames = accessory.context.configuredNames || {};
+
+    service.setCharacteristic(this.Characteristic.Name, name);
+
+    if (!service.testCharacteristic(this.Characteristic.ConfiguredName)) {
+      service.addOptionalCharacteristic(this.Characteristic.ConfiguredName);
+    }
+    service.getCharacteristic(this.Characteristic.ConfiguredName)
+      .onSet(value => {
+        this.log.debug('Accessory renamed in HomeKit:', name, '->', value);
+        configuredNames[key] = value;
+        accessory.context.configuredNames = configuredNames;
+        this.api.updatePlatformAccessories([accessory]);
+      })
+      .updateValue(configuredNames[key] ?? name);
+  }
+
+  /**
+   * Set the accessory information, room accessories describe the room rather than one of its devices
+   */
+  setAccessoryInformation(accessory: PlatformAccessory, device: CrestronDevice) {
+    const room = accessory.context.room;
+
+    accessory.getService(this.Service.AccessoryInformation)!
+      .setCharacteristic(this.Characteristic.Manufacturer, 'Crestron Electronics')
+      .setCharacteristic(this.Characteristic.Model, room ? 'Room' : 'Default-Model')
+      .setCharacteristic(this.Characteristic.SerialNumber, room ? `Crestron-Room-${room.id}` : `Crestron-${device.id}`);
   }
 
-  createCrestronAccessory(accessory: PlatformAccessory): boolean {
+  createCrestronAccessory(accessory: PlatformAccessory, device: CrestronDevice = accessory.context.device): boolean {
 
-    const deviceType = accessory.context.device.type;
+    const deviceType = device.type;
 
     // if (!this.enabledTypes.includes(accessory.context.device.type)) {
     //   this.log.debug('Device support is not enabled for:', deviceType);
     //   return false;
     // }
 
-    this.log.info('Adding new accessory:', accessory.displayName);
+    this.log.info('Adding new accessory:', device.name);
     switch (deviceType) {
       case 'Dimmer':  // Dimmer needs brightness, while Switch has On/Off only
       case 'Switch':
-        this.crestronDevices.push(new CrestronHomeLight(this, accessory));
+        this.crestronDevices.push(new CrestronHomeLight(this, accessory, device));
         break;
       case 'Shade':
-        this.crestronDevices.push(new CrestronHomeShade(this, accessory));
+        this.crestronDevices.push(new CrestronHomeShade(this, accessory, device));
         break;
       case 'Scene':
-        this.crestronDevices.push(new CrestronHomeScene(this, accessory));
+        this.crestronDevices.push(new CrestronHomeScene(this, accessory, device));
         break;
       case 'Thermostat':
       case 'thermostat': // Handle lowercase thermostat from Crestron API
@@ -170,45 +553,233 @@ export class CrestronHomePlatform implements DynamicPlatformPlugin {
         this.crestronDevices.push(new CrestronHomeSecuritySystem(this, accessory));
         break;
       default:
-        this.log.info('Unsupported accessory type:', accessory.context.device.type);
+        this.log.info('Unsupported accessory type:', device.type);
         break;
     }
 
     return true;
   }
 
-  async updateDevices() {
+  /**
+   * Unregister cached accessories whose devices are no longer returned by Crestron - deleted or re-created on the processor,
+   * or of a type that is no longer enabled. An accessory is only removed after it has been missing for the whole grace period,
+   * so a single bad response from the processor doesn't wipe the home.
+   */
+  removeStaleAccessories(devices: CrestronDevice[]) {
+    if (this.staleGracePeriod < 0) {
+      return;
+    }
+
+    const now = Date.now();
+    // mapped scenes are part of their mapping's accessory
+    const accessoryDevices = devices.filter(device => !this.mappedScenes.has(device.id));
+    const presentIds = new Set(accessoryDevices.map(device => device.id));
+    const presentUUIDs = new Set(accessoryDevices.map(device => this.accessoryUUID(device)));
+    this.virtualAccessoryUUIDs(devices).forEach(uuid => presentUUIDs.add(uuid));
+    const staleAccessories: PlatformAccessory[] = [];
+    const removedNames: string[] = [];
+
+    for (const accessory of this.accessories) {
+      if (!presentUUIDs.has(accessory.UUID)) {
+        if (this.isStale(accessory.UUID, accessory.displayName, now)) {
+          staleAccessories.push(accessory);
+        }
+        continue;
+      }
+
+      this.missingSince.delete(accessory.UUID);
+
+      // devices removed from a room that still exists only lose their service
+      if (accessory.context.room) {
+        removedNames.push(...this.removeStaleServices(accessory, presentIds, now));
+      }
+    }
+
+    if (staleAccessories.length > 0) {
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, staleAccessories);
+    }
 
-    this.log.info('Updating Devices state');
-    const devices = await this.crestronClient.getDevices(this.enabledTypes);
+    for (const accessory of staleAccessories) {
+      if (accessory.context.shadeGroup) {
+        this.forgetShadeGroup(accessory);
+      }
+      if (accessory.context.sceneMapping) {
+        this.forgetSceneMapping(accessory);
+      }
+      if (accessory.context.authorizeSwitch) {
+        this.authorizeSwitch?.dispose();
+        this.authorizeSwitch = undefined;
+      }
+      const crestronIds = accessory.context.room
+        ? Object.keys(accessory.context.devices || {}).map(Number)
+        : accessory.context.device ? [accessory.context.device.id] : [];
+
+      this.accessories.splice(this.accessories.indexOf(accessory), 1);
+      crestronIds.forEach(crestronId => this.forgetDevice(crestronId));
+      this.missingSince.delete(accessory.UUID);
+      removedNames.push(accessory.displayName);
+    }
 
-    for (const device of devices) {
-      const uuid = this.api.hap.uuid.generate(device.id.toString());
+    if (removedNames.length > 0) {
+      this.log.info(`Removed ${removedNames.length} accessories no longer present in Crestron Home:`, removedNames.join(', '));
+    }
+  }
 
-      const existingDevice = this.crestronDevices.find(accessory => accessory.crestronId === device.id);
-      const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
+  /**
+   * Remove the services of devices that disappeared from a room accessory, returns their names
+   */
+  private removeStaleServices(accessory: PlatformAccessory, presentIds: Set<number>, now: number): string[] {
+    const roomDevices = accessory.context.devices || {};
+    // a device's services have its Crestron id as subtype, extra ones (e.g. "52066-circadian") start with it
+    const crestronIdOf = (service: Service) => parseInt(service.subtype || '', 10);
+
+    const staleServices = accessory.services.filter(service => {
+      const crestronId = crestronIdOf(service);
+      if (!roomDevices[crestronId]) {
+        return false;
+      }
+      const key = `${accessory.UUID}:${service.subtype}`;
+      if (presentIds.has(crestronId)) {
+        this.missingSince.delete(key);
+        return false;
+      }
+      return this.isStale(key, service.displayName, now);
+    });
 
-      if (existingDevice) {
-        // The device exists and has already been restored during the 'discoverDevices()' call
-        existingDevice.updateState(device);
-      } else if (existingAccessory) {
-        // The device already exists in the HB cache, but has not yet been restored by the plugin
-        this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+    if (staleServices.length === 0) {
+      return [];
+    }
 
-        existingAccessory.context.device = device;
-        this.api.updatePlatformAccessories([existingAccessory]);
-        this.createCrestronAccessory(existingAccessory);
-      } else {
-        // The device does not exist and should be created
-        this.log.debug('New device discovered:', device.name);
+    for (const service of staleServices) {
+      accessory.removeService(service);
+      delete roomDevices[crestronIdOf(service)];
+      this.forgetDevice(crestronIdOf(service));
+      this.missingSince.delete(`${accessory.UUID}:${service.subtype}`);
+    }
+    this.api.updatePlatformAccessories([accessory]);
 
-        const accessory = new this.api.platformAccessory(device.name, uuid);
-        accessory.context.device = device;
+    return staleServices.map(service => service.displayName);
+  }
 
-        if (this.createCrestronAccessory(accessory)) {
-          // link the accessory to your platform
-          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-          this.accessories.push(accessory);
+  /**
+   * Track how long an accessory or service has been missing, returns true once the grace period is over
+   */
+  private isStale(key: string, name: string, now: number): boolean {
+    if (!this.missingSince.has(key)) {
+      this.log.debug('Device is no longer returned by Crestron:', name);
+      this.missingSince.set(key, now);
+    }
+    return now - this.missingSince.get(key)! >= this.staleGracePeriod;
+  }
+
+  private forgetShadeGroup(accessory: PlatformAccessory) {
+    this.shadeGroupAccessories = this.shadeGroupAccessories.filter(group => {
+      if (group.accessory !== accessory) {
+        return true;
+      }
+      group.dispose();
+      return false;
+    });
+  }
+
+  private forgetSceneMapping(accessory: PlatformAccessory) {
+    this.sceneMappingAccessories = this.sceneMappingAccessories.filter(mapping => {
+      if (mapping.accessory !== accessory) {
+        return true;
+      }
+      mapping.dispose();
+      return false;
+    });
+  }
+
+  private forgetDevice(crestronId: number) {
+    this.crestronDevices = this.crestronDevices.filter(crestronDevice => {
+      if (crestronDevice.crestronId !== crestronId) {
+        return true;
+      }
+      crestronDevice.dispose?.();
+      return false;
+    });
+    this.updateEngine.invalidate(crestronId);
+  }
+
+  /**
+   * Called by the update engine for every device whose state has changed
+   */
+  applyDeviceUpdate(device: CrestronDevice) {
+    const existingDevice = this.crestronDevices.find(accessory => accessory.crestronId === device.id);
+
+    this.trackConnectionStatus(device);
+    // any device or scene can be the state of a scene mapping
+    this.sceneMappingAccessories.forEach(mapping => mapping.updateSource(device));
+
+    if (this.mappedScenes.has(device.id)) {
+      return;
+    }
+
+    if (existingDevice) {
+      // The device exists and has already been restored during the 'discoverDevices()' call
+      existingDevice.updateState(device);
+    } else {
+      // The device is either in the HB cache, but has not yet been restored by the plugin, or is new and should be created
+      this.log.debug('New device discovered:', device.name);
+      this.exposeDevice(device);
+    }
+
+    // groups follow the positions of their shades
+    if (device.type === 'Shade') {
+      this.shadeGroupAccessories.forEach(group => group.updateMember(device));
+    }
+  }
+
+  /**
+   * HomeKit shows a device as "Not Responding" while the processor is offline or the device itself reports offline
+   */
+  isReachable(crestronId: number): boolean {
+    return this.connectionState !== 'offline' && !this.offlineDevices.has(crestronId);
+  }
+
+  /**
+   * Called at the start of `onGet` handlers, fails the read instead of returning a stale value
+   */
+  assertReachable(crestronId: number) {
+    if (!this.isReachable(crestronId)) {
+      throw new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  private trackConnectionStatus(device: CrestronDevice) {
+    const offline = device.connectionStatus?.toLowerCase() === 'offline';
+
+    if (offline && !this.offlineDevices.has(device.id)) {
+      this.log.warn('Device reports offline:', device.name);
+      this.offlineDevices.add(device.id);
+    } else if (!offline && this.offlineDevices.delete(device.id)) {
+      this.log.info('Device is back online:', device.name);
+    }
+  }
+
+  private connectionChanged(state: ConnectionState, previous: ConnectionState) {
+    this.connectionState = state;
+
+    if (state === 'offline') {
+      this.log.warn('Crestron processor is offline, accessories show as "Not Responding" until it is back');
+      this.setStatusFaults();
+    } else if (previous === 'offline') {
+      this.log.info('Connection to the Crestron processor is back');
+      // restore the last known states (and status faults) until the next poll brings fresh ones
+      this.updateEngine.replay();
+    }
+  }
+
+  /**
+   * Raise StatusFault on every service that has one
+   */
+  private setStatusFaults() {
+    for (const accessory of this.accessories) {
+      for (const service of accessory.services) {
+        if (service.testCharacteristic(this.Characteristic.StatusFault)) {
+          service.updateCharacteristic(this.Characteristic.StatusFault, this.Characteristic.StatusFault.GENERAL_FAULT);
         }
       }
     }
@@ -0,0 +1,61 @@
+import { PollScheduler, requiredCategories } from '../src/pollScheduler';
+import { Logger } from 'homebridge';
+
+describe('PollScheduler', () => {
+  let log: Logger;
+  let fetchDevices: jest.Mock;
+  let sink: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+    fetchDevices = jest.fn().mockResolvedValue([]);
+    sink = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should poll each category on its own interval', async () => {
+    const scheduler = new PollScheduler(log, ['rooms', 'devices', 'securitydevices'], 30 * 1000, { securitydevices: 5 }, fetchDevices);
+
+    scheduler.start(sink);
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    scheduler.stop();
+
+    const polled = fetchDevices.mock.calls.map(call => call[0]).flat();
+    expect(polled.filter(category => category === 'securitydevices')).toHaveLength(6);
+    expect(polled.filter(category => category === 'devices')).toHaveLength(1);
+    expect(polled).not.toContain('rooms');
+    expect(sink).toHaveBeenCalled();
+  });
+
+  it('should poll a category quickly after a burst', async () => {
+    const scheduler = new PollScheduler(log, ['shades'], 30 * 1000, { burstInterval: 2, burstDuration: 10 }, fetchDevices);
+
+    scheduler.start(sink);
+    scheduler.burst('shades');
+    await jest.advanceTimersByTimeAsync(10 * 1000);
+    scheduler.stop();
+
+    expect(fetchDevices).toHaveBeenCalledTimes(5);
+    expect(fetchDevices).toHaveBeenCalledWith(['shades']);
+  });
+
+  it('should ignore bursts for categories that are not polled', async () => {
+    const scheduler = new PollScheduler(log, ['rooms'], 30 * 1000, {}, fetchDevices);
+
+    scheduler.start(sink);
+    scheduler.burst('doorlocks');
+    await jest.advanceTimersByTimeAsync(5 * 1000);
+    scheduler.stop();
+
+    expect(fetchDevices).not.toHaveBeenCalled();
+  });
+
+  it('should only require endpoints for enabled device types', () => {
+    expect(requiredCategories(['Scene'])).toEqual(['rooms', 'scenes']);
+    expect(requiredCategories(['Dimmer', 'Shade'])).toEqual(['rooms', 'devices', 'shades']);
+  });
+});
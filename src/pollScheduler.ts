@@ -0,0 +1,160 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice, PollCategory } from './crestronClient';
+import { DeviceEventSource, DeviceSink } from './updateEngine';
+
+const TICK_MILLIS = 1000;
+
+/**
+ * Poll intervals in seconds, as set in the `pollSchedule` section of the config
+ */
+export type PollScheduleConfig = {
+  [category in PollCategory]?: number;
+} & {
+  burstInterval?: number;
+  burstDuration?: number;
+};
+
+/**
+ * Default intervals (seconds) for endpoints that should not follow the global `updateInterval`
+ */
+const DEFAULT_INTERVALS: { [category in PollCategory]?: number } = {
+  rooms: 60 * 60,
+  thermostats: 60,
+  doorlocks: 10,
+  securitydevices: 5,
+};
+
+const DEFAULT_BURST_INTERVAL = 2;
+const DEFAULT_BURST_DURATION = 20;
+
+/**
+ * Returns the endpoints that have to be polled to keep the enabled device types up to date
+ */
+export function requiredCategories(enabledTypes: string[]): PollCategory[] {
+  const categories: PollCategory[] = ['rooms'];
+
+  // Lights, shades, thermostats and security devices are all listed by /devices
+  if (enabledTypes.some(type => ['Switch', 'Dimmer', 'Shade', 'Thermostat', 'SecuritySystem'].includes(type))) {
+    categories.push('devices');
+  }
+  if (enabledTypes.includes('Scene')) {
+    categories.push('scenes');
+  }
+  if (enabledTypes.includes('Shade')) {
+    categories.push('shades');
+  }
+  if (enabledTypes.includes('Thermostat')) {
+    categories.push('thermostats');
+  }
+  if (enabledTypes.includes('DoorLock')) {
+    categories.push('doorlocks');
+  }
+  if (enabledTypes.includes('SecuritySystem')) {
+    categories.push('securitydevices');
+  }
+
+  return categories;
+}
+
+/**
+ * Event source that polls every Crestron endpoint on its own schedule.
+ * After a HomeKit write to a category, that category is polled at the burst interval for a short time,
+ * so the result of the command shows up quickly.
+ */
+export class PollScheduler implements DeviceEventSource {
+  public readonly name = 'poll scheduler';
+
+  private readonly intervals = new Map<PollCategory, number>();
+  private readonly nextPoll = new Map<PollCategory, number>();
+  private readonly burstUntil = new Map<PollCategory, number>();
+  private readonly burstInterval: number;
+  private readonly burstDuration: number;
+
+  private timer: NodeJS.Timer | undefined;
+  private polling = false;
+  private sink: DeviceSink | undefined;
+
+  constructor(
+    private readonly log: Logger,
+    categories: PollCategory[],
+    updateInterval: number,
+    schedule: PollScheduleConfig,
+    private readonly fetchDevices: (categories: PollCategory[]) => Promise<CrestronDevice[]>,
+  ) {
+    for (const category of categories) {
+      const seconds = schedule[category] || DEFAULT_INTERVALS[category] || updateInterval / 1000;
+      this.intervals.set(category, seconds * 1000);
+    }
+    this.burstInterval = (schedule.burstInterval || DEFAULT_BURST_INTERVAL) * 1000;
+    this.burstDuration = (schedule.burstDuration || DEFAULT_BURST_DURATION) * 1000;
+  }
+
+  public start(sink: DeviceSink): void {
+    this.stop();
+    this.sink = sink;
+
+    const now = Date.now();
+    for (const [category, interval] of this.intervals) {
+      this.log.debug(`Will poll ${category} every ms:`, interval);
+      this.nextPoll.set(category, now + interval);
+    }
+
+    this.timer = setInterval(() => this.tick(), TICK_MILLIS);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Poll the given category quickly for the configured burst duration
+   */
+  public burst(category: PollCategory) {
+    if (!this.intervals.has(category)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.log.debug(`Burst polling ${category} for ms:`, this.burstDuration);
+    this.burstUntil.set(category, now + this.burstDuration);
+    this.nextPoll.set(category, Math.min(this.nextPoll.get(category) || Infinity, now + this.burstInterval));
+  }
+
+  private intervalFor(category: PollCategory, now: number): number {
+    const interval = this.intervals.get(category)!;
+    if ((this.burstUntil.get(category) || 0) > now) {
+      return Math.min(interval, this.burstInterval);
+    }
+    return interval;
+  }
+
+  private async tick() {
+    // Skip the tick if the previous request is still running (e.g. processor is slow to answer)
+    if (this.polling || !this.sink) {
+      return;
+    }
+
+    const now = Date.now();
+    const due = [...this.intervals.keys()].filter(category => (this.nextPoll.get(category) || 0) <= now);
+    if (due.length === 0) {
+      return;
+    }
+
+    for (const category of due) {
+      this.nextPoll.set(category, now + this.intervalFor(category, now));
+    }
+
+    this.polling = true;
+    try {
+      // every successful poll returns the whole device list, rebuilt from the latest data of each endpoint
+      this.sink(await this.fetchDevices(due), true);
+    } catch (error) {
+      this.log.error(`Error polling ${due.join(', ')}:`, error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
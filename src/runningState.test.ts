@@ -0,0 +1,37 @@
+import { inferRunningState, parseRunningState } from '../src/runningState';
+
+describe('parseRunningState', () => {
+  it('should recognise reported running states', () => {
+    expect(parseRunningState('Heating')).toBe('heating');
+    expect(parseRunningState('heat stage 2')).toBe('heating');
+    expect(parseRunningState('Cool')).toBe('cooling');
+    expect(parseRunningState('Idle')).toBe('idle');
+    expect(parseRunningState('FanOnly')).toBe('idle');
+    expect(parseRunningState('Unknown')).toBeUndefined();
+    expect(parseRunningState(undefined)).toBeUndefined();
+  });
+});
+
+describe('inferRunningState', () => {
+  const thermostat = { mode: 'Auto', heat: 20, cool: 24, hysteresis: 0.5, previous: 'idle' as const };
+
+  it('should start heating and cooling past the hysteresis', () => {
+    expect(inferRunningState({ ...thermostat, temperature: 19.7 })).toBe('idle');
+    expect(inferRunningState({ ...thermostat, temperature: 19.5 })).toBe('heating');
+    expect(inferRunningState({ ...thermostat, temperature: 24.3 })).toBe('idle');
+    expect(inferRunningState({ ...thermostat, temperature: 24.5 })).toBe('cooling');
+  });
+
+  it('should keep running until the setpoint is reached', () => {
+    expect(inferRunningState({ ...thermostat, temperature: 19.8, previous: 'heating' })).toBe('heating');
+    expect(inferRunningState({ ...thermostat, temperature: 20, previous: 'heating' })).toBe('idle');
+    expect(inferRunningState({ ...thermostat, temperature: 24.2, previous: 'cooling' })).toBe('cooling');
+    expect(inferRunningState({ ...thermostat, temperature: 24, previous: 'cooling' })).toBe('idle');
+  });
+
+  it('should only run the equipment of the mode', () => {
+    expect(inferRunningState({ ...thermostat, mode: 'Heat', temperature: 26 })).toBe('idle');
+    expect(inferRunningState({ ...thermostat, mode: 'Cool', temperature: 18 })).toBe('idle');
+    expect(inferRunningState({ ...thermostat, mode: 'Off', temperature: 18 })).toBe('idle');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * What a thermostat's equipment is doing right now, as opposed to the mode it is set to
+ */
+export type RunningState = 'heating' | 'cooling' | 'idle';
+
+/**
+ * Everything needed to infer the running state of a thermostat that doesn't report one, temperatures in Celsius
+ */
+export interface RunningStateInput {
+  mode: string; // the Crestron system mode - 'Heat', 'Cool', 'Auto', 'Off'
+  temperature: number;
+  heat: number;
+  cool: number;
+  hysteresis: number;
+  previous: RunningState;
+}
+
+/**
+ * Parse a running/equipment state reported by Crestron ('Heating', 'heat stage 2', 'Cool', 'Idle', 'FanOnly'...).
+ * Returns undefined for states that can't be recognised, the running state is then inferred.
+ */
+export function parseRunningState(raw?: string): RunningState | undefined {
+  const state = (raw || '').toLowerCase();
+  if (state.includes('heat')) {
+    return 'heating';
+  }
+  if (state.includes('cool')) {
+    return 'cooling';
+  }
+  if (['idle', 'off', 'fan', 'standby', 'satisfied'].some(idle => state.includes(idle))) {
+    return 'idle';
+  }
+  return undefined;
+}
+
+/**
+ * Infer the running state from the temperature and setpoints. Heating starts `hysteresis` below the heat setpoint
+ * and runs until the setpoint is reached, cooling likewise above the cool setpoint - so the state doesn't flap
+ * while the temperature hovers around a setpoint.
+ */
+export function inferRunningState(input: RunningStateInput): RunningState {
+  const { temperature, heat, cool, hysteresis, previous } = input;
+  const mode = input.mode.toLowerCase();
+  const canHeat = mode === 'heat' || mode === 'auto';
+  const canCool = mode === 'cool' || mode === 'auto';
+
+  if (canHeat && (temperature <= heat - hysteresis || (previous === 'heating' && temperature < heat))) {
+    return 'heating';
+  }
+  if (canCool && (temperature >= cool + hysteresis || (previous === 'cooling' && temperature > cool))) {
+    return 'cooling';
+  }
+  return 'idle';
+}
@@ -0,0 +1,96 @@
+import { Logger } from 'homebridge';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SafetyPolicy, inTimeWindow } from '../src/safetyPolicy';
+
+describe('inTimeWindow', () => {
+  const at = (hours: number, minutes: number) => new Date(2024, 5, 1, hours, minutes);
+
+  it('should match times within a window', () => {
+    const windows = [{ from: '07:00', to: '22:00' }];
+    expect(inTimeWindow(windows, at(7, 0))).toBe(true);
+    expect(inTimeWindow(windows, at(21, 59))).toBe(true);
+    expect(inTimeWindow(windows, at(22, 0))).toBe(false);
+    expect(inTimeWindow(windows, at(6, 30))).toBe(false);
+  });
+
+  it('should match windows spanning midnight', () => {
+    const windows = [{ from: '22:00', to: '06:00' }];
+    expect(inTimeWindow(windows, at(23, 30))).toBe(true);
+    expect(inTimeWindow(windows, at(5, 59))).toBe(true);
+    expect(inTimeWindow(windows, at(12, 0))).toBe(false);
+  });
+});
+
+describe('SafetyPolicy', () => {
+  const frontDoor = { id: 52201, name: 'Front Door' };
+  const noon = new Date(2024, 5, 1, 12, 0);
+  let log: Logger;
+
+  beforeEach(() => {
+    log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  });
+
+  it('should allow actions without a policy', () => {
+    const safety = new SafetyPolicy(log);
+    expect(safety.check('unlock', frontDoor, noon)).toBeUndefined();
+    expect(safety.needsAuthorizeSwitch).toBe(false);
+    expect(log.info).toHaveBeenCalledWith('🔐 AUDIT: Allowed unlock of "Front Door" from HomeKit');
+  });
+
+  it('should deny disabled actions and actions outside of their windows', () => {
+    const safety = new SafetyPolicy(log, { disarm: { disabled: true }, unlock: { windows: [{ from: '07:00', to: '11:00' }] } });
+    expect(safety.check('disarm', { id: 401, name: 'Alarm' }, noon)).toBe('disarm is disabled from HomeKit');
+    expect(safety.check('unlock', frontDoor, noon)).toBe('unlock is not allowed at this time');
+    expect(safety.check('unlock', frontDoor, new Date(2024, 5, 1, 8, 0))).toBeUndefined();
+  });
+
+  it('should disable actions whose windows can not be parsed', () => {
+    const safety = new SafetyPolicy(log, { unlock: { windows: [{ from: '7am', to: '11:00' }] } });
+    expect(safety.check('unlock', frontDoor, noon)).toBe('unlock is disabled from HomeKit');
+  });
+
+  it('should allow a single action shortly after the authorize switch was turned on', () => {
+    jest.useFakeTimers();
+    try {
+      const safety = new SafetyPolicy(log, { unlock: { authorize: true }, authorizeSeconds: 20 });
+      const listener = jest.fn();
+      safety.subscribe(listener);
+      expect(safety.needsAuthorizeSwitch).toBe(true);
+      expect(safety.check('unlock', frontDoor)).toBe('unlock needs the "Authorize" switch turned on first');
+
+      safety.authorize();
+      expect(listener).toHaveBeenLastCalledWith(true);
+      expect(safety.check('unlock', frontDoor)).toBeUndefined();
+      expect(listener).toHaveBeenLastCalledWith(false);
+      expect(safety.check('unlock', frontDoor)).toBeDefined();
+
+      safety.authorize();
+      jest.advanceTimersByTime(20 * 1000);
+      expect(listener).toHaveBeenLastCalledWith(false);
+      expect(safety.check('unlock', frontDoor)).toBeDefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should append every attempt to the audit log', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'crestron-audit-'));
+    const auditLog = path.join(directory, 'audit.log');
+    try {
+      const safety = new SafetyPolicy(log, { disarm: { disabled: true } }, auditLog);
+      safety.check('disarm', { id: 401, name: 'Alarm' }, noon);
+      safety.check('unlock', frontDoor, noon);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const entries = (await fs.readFile(auditLog, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(entries).toEqual([
+        expect.objectContaining({ action: 'disarm', id: 401, allowed: false, reason: 'disarm is disabled from HomeKit' }),
+        expect.objectContaining({ action: 'unlock', id: 52201, name: 'Front Door', allowed: true }),
+      ]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
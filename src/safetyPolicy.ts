@@ -0,0 +1,195 @@
+import { Logger } from 'homebridge';
+import { promises as fs } from 'fs';
+
+/**
+ * HomeKit actions that open the house: disarming a security system and unlocking a door lock
+ */
+export type SensitiveAction = 'disarm' | 'unlock';
+
+/**
+ * A time of day range, "22:00" to "06:00" spans midnight
+ */
+export interface TimeWindow {
+  from: string;
+  to: string;
+}
+
+/**
+ * When an action is allowed from HomeKit: never when `disabled`, otherwise only within one of the `windows` (any time
+ * without windows) and, with `authorize`, only shortly after the authorize switch was turned on
+ */
+export interface ActionPolicy {
+  disabled?: boolean;
+  windows?: TimeWindow[];
+  authorize?: boolean;
+}
+
+/**
+ * The `safety` section of the config
+ */
+export interface SafetyConfig {
+  disarm?: ActionPolicy;
+  unlock?: ActionPolicy;
+  authorizeName?: string;
+  authorizeSeconds?: number;
+  // file, relative to the Homebridge storage path, every attempt is appended to
+  auditLog?: string;
+}
+
+export type AuthorizeListener = (authorized: boolean) => void;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes after midnight of a "HH:MM" time, undefined when it can't be parsed
+ */
+export function parseClock(time: string): number | undefined {
+  const clock = String(time).trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!clock) {
+    return undefined;
+  }
+  const minutes = Number(clock[1]) * 60 + Number(clock[2]);
+  return minutes < MINUTES_PER_DAY && Number(clock[2]) < 60 ? minutes : undefined;
+}
+
+/**
+ * Whether the local time of `date` is within one of the windows, the end of a window is excluded
+ */
+export function inTimeWindow(windows: TimeWindow[], date: Date): boolean {
+  const now = date.getHours() * 60 + date.getMinutes();
+  return windows.some(window => {
+    const from = parseClock(window.from)!;
+    const to = parseClock(window.to)!;
+    return from <= to ? now >= from && now < to : now >= from || now < to;
+  });
+}
+
+/**
+ * Decides whether disarm and unlock requests from HomeKit are carried out, and writes every attempt to the audit log.
+ * The authorize switch grants a single action within `authorizeSeconds` after it was turned on.
+ */
+export class SafetyPolicy {
+  private readonly policies: Record<SensitiveAction, ActionPolicy>;
+  private readonly authorizeMillis: number;
+  private readonly listeners = new Set<AuthorizeListener>();
+  private authorizedUntil = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly config: SafetyConfig = {},
+    private readonly auditPath?: string,
+  ) {
+    this.policies = { disarm: this.validPolicy('disarm', config.disarm), unlock: this.validPolicy('unlock', config.unlock) };
+    this.authorizeMillis = (config.authorizeSeconds ?? 30) * 1000;
+  }
+
+  /**
+   * Whether an authorize switch is needed, it is only exposed then
+   */
+  public get needsAuthorizeSwitch(): boolean {
+    return Object.values(this.policies).some(policy => policy.authorize && !policy.disabled);
+  }
+
+  public get authorizeName(): string {
+    return this.config.authorizeName || 'Authorize';
+  }
+
+  /**
+   * Returns undefined when the action is allowed now, otherwise the reason it isn't. Either way the attempt is
+   * written to the audit log. An allowed action uses up the authorization.
+   */
+  public check(action: SensitiveAction, device: { id: number; name: string }, date = new Date()): string | undefined {
+    const policy = this.policies[action];
+    let reason: string | undefined;
+    if (policy.disabled) {
+      reason = `${action} is disabled from HomeKit`;
+    } else if (policy.windows?.length && !inTimeWindow(policy.windows, date)) {
+      reason = `${action} is not allowed at this time`;
+    } else if (policy.authorize && !this.isAuthorized(date.getTime())) {
+      reason = `${action} needs the "${this.authorizeName}" switch turned on first`;
+    }
+
+    if (!reason && policy.authorize) {
+      this.revoke();
+    }
+    this.audit(action, device, date, reason);
+    return reason;
+  }
+
+  public isAuthorized(now = Date.now()): boolean {
+    return now < this.authorizedUntil;
+  }
+
+  /**
+   * The authorize switch was turned on, it turns itself off again after `authorizeSeconds`
+   */
+  public authorize(now = Date.now()) {
+    this.log.info(`🔐 AUDIT: "${this.authorizeName}" turned on for ${this.authorizeMillis / 1000} seconds`);
+    this.authorizedUntil = now + this.authorizeMillis;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.revoke(), this.authorizeMillis);
+    this.notify();
+  }
+
+  public revoke() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.authorizedUntil = 0;
+    this.notify();
+  }
+
+  /**
+   * Register the authorize switch, returns a function that unregisters it
+   */
+  public subscribe(listener: AuthorizeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener(this.isAuthorized());
+    }
+  }
+
+  private audit(action: SensitiveAction, device: { id: number; name: string }, date: Date, reason?: string) {
+    if (reason) {
+      this.log.warn(`🔐 AUDIT: Denied ${action} of "${device.name}" from HomeKit, ${reason}`);
+    } else {
+      this.log.info(`🔐 AUDIT: Allowed ${action} of "${device.name}" from HomeKit`);
+    }
+    if (!this.auditPath) {
+      return;
+    }
+
+    const entry = { time: date.toISOString(), action, id: device.id, name: device.name, allowed: !reason, reason };
+    fs.appendFile(this.auditPath, JSON.stringify(entry) + '\n').catch(error => {
+      this.log.error('Could not write the audit log:', error.message);
+    });
+  }
+
+  /**
+   * Returns the policy without the windows that can't be parsed
+   */
+  private validPolicy(action: SensitiveAction, policy: ActionPolicy = {}): ActionPolicy {
+    const windows = (policy.windows || []).filter(window => {
+      const valid = parseClock(window.from) !== undefined && parseClock(window.to) !== undefined;
+      if (!valid) {
+        this.log.error(`Ignoring ${action} time window that can't be parsed:`, window);
+      }
+      return valid;
+    });
+    if (policy.windows?.length && windows.length === 0) {
+      // fail closed, rather than allowing the action at any time
+      this.log.error(`None of the ${action} time windows can be parsed, ${action} is disabled from HomeKit`);
+      return { ...policy, windows, disabled: true };
+    }
+    return { ...policy, windows };
+  }
+}
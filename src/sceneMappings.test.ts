@@ -0,0 +1,35 @@
+import { mappedSceneIds, validSceneMappings } from '../src/sceneMappings';
+import { Logger } from 'homebridge';
+
+describe('validSceneMappings', () => {
+  const log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep valid mappings with numeric ids', () => {
+    const mappings = validSceneMappings(log, [
+      { name: 'Gate', openScene: '5' as unknown as number, stateId: '7' as unknown as number },
+      { name: 'Garage', service: 'GarageDoorOpener', openScene: 8, closeScene: 9 },
+    ]);
+
+    expect(mappings).toEqual([
+      { name: 'Gate', openScene: 5, closeScene: undefined, stateId: 7 },
+      { name: 'Garage', service: 'GarageDoorOpener', openScene: 8, closeScene: 9, stateId: undefined },
+    ]);
+    expect(mappedSceneIds(mappings)).toEqual(new Set([5, 8, 9]));
+  });
+
+  it('should ignore mappings without an open scene, with an unknown service or a duplicate name', () => {
+    const mappings = validSceneMappings(log, [
+      { name: 'Gate', openScene: 5 },
+      { name: 'Gate', openScene: 6 },
+      { name: 'Window', service: 'Window' as 'Door', openScene: 7 },
+      { name: 'Nothing' } as { name: string; openScene: number },
+    ]);
+
+    expect(mappings.map(mapping => mapping.openScene)).toEqual([5]);
+    expect(log.warn).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,57 @@
+import { Logger } from 'homebridge';
+
+export type SceneMappingService = 'LockMechanism' | 'GarageDoorOpener' | 'Door';
+
+/**
+ * An entry of the `sceneMappings` section of the config: genericIO scenes driving a gate, garage door or door relay
+ */
+export interface SceneMappingConfig {
+  name: string;
+  service?: SceneMappingService;
+  openScene: number;
+  // without a close scene, the open scene is pulsed for both directions
+  closeScene?: number;
+  // Crestron device or scene whose status tells whether it is open, and whether status on means closed instead
+  stateId?: number;
+  stateInverted?: boolean;
+  // seconds to wait for the state to confirm a command, or an optimistic state of a pulsed relay to fall back to closed
+  timeout?: number;
+}
+
+const SERVICES: SceneMappingService[] = ['LockMechanism', 'GarageDoorOpener', 'Door'];
+
+/**
+ * Returns the usable mappings of the config, ids as numbers. Mappings without a name or open scene,
+ * or with a service that isn't supported, are left out.
+ */
+export function validSceneMappings(log: Logger, mappings: SceneMappingConfig[] = []): SceneMappingConfig[] {
+  const valid: SceneMappingConfig[] = [];
+  for (const mapping of mappings) {
+    if (!mapping.name || mapping.openScene === undefined) {
+      log.warn('Ignoring scene mapping without a name or open scene:', mapping);
+      continue;
+    }
+    if (mapping.service && !SERVICES.includes(mapping.service)) {
+      log.warn(`Ignoring scene mapping "${mapping.name}" with service "${mapping.service}", use one of:`, SERVICES.join(', '));
+      continue;
+    }
+    if (valid.some(other => other.name === mapping.name)) {
+      log.warn('Ignoring scene mapping with a duplicate name:', mapping.name);
+      continue;
+    }
+    valid.push({
+      ...mapping,
+      openScene: Number(mapping.openScene),
+      closeScene: mapping.closeScene !== undefined ? Number(mapping.closeScene) : undefined,
+      stateId: mapping.stateId !== undefined ? Number(mapping.stateId) : undefined,
+    });
+  }
+  return valid;
+}
+
+/**
+ * Ids of the scenes driven by mappings, they are not exposed as accessories of their own
+ */
+export function mappedSceneIds(mappings: SceneMappingConfig[]): Set<number> {
+  return new Set(mappings.flatMap(mapping => [mapping.openScene, mapping.closeScene ?? mapping.openScene]));
+}
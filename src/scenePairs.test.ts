@@ -0,0 +1,31 @@
+import { pairScenes } from '../src/scenePairs';
+import { CrestronDevice } from '../src/crestronClient';
+
+const scene = (id: number, name: string, roomId = 10, status = false, subType = 'Lighting'): CrestronDevice => ({
+  id, name: `Living Room ${name}`, type: 'Scene', subType, roomId, roomName: 'Living Room', status, level: 0, position: 0,
+});
+
+describe('pairScenes', () => {
+  it('should merge the "On" and "Off" scenes of a room', () => {
+    const devices = pairScenes([scene(1, 'All On'), scene(2, 'All Off', 10, true), scene(3, 'Movie')]);
+
+    expect(devices).toEqual([
+      { ...scene(1, 'All On'), name: 'Living Room All', pairedScene: { id: 2, status: true } },
+      scene(3, 'Movie'),
+    ]);
+  });
+
+  it('should leave scenes without exactly one counterpart in their room', () => {
+    const devices = [
+      scene(1, 'All On'),
+      scene(2, 'All Off', 20),
+      scene(3, 'Lights On'),
+      scene(4, 'Lights Off'),
+      scene(5, 'lights off'),
+      scene(6, 'Gate On', 10, false, 'genericIO'),
+      scene(7, 'Gate Off', 10, false, 'genericIO'),
+    ];
+
+    expect(pairScenes(devices)).toEqual(devices);
+  });
+});
@@ -0,0 +1,39 @@
+import { CrestronDevice } from './crestronClient';
+
+// "Living Room All On" and "Living Room All Off" pair up as "Living Room All"
+const PAIRED_NAME = /^(.*\S)\s+(on|off)$/i;
+
+/**
+ * Merges the "On"/"Off" scene pairs of each room (e.g. "All On" and "All Off") into one device: the "On" scene,
+ * named after what both have in common and carrying the id and status of the "Off" scene, which is hidden.
+ * Scenes without exactly one counterpart in their room stay as they are.
+ */
+export function pairScenes(devices: CrestronDevice[]): CrestronDevice[] {
+  const candidates = new Map<string, { on: CrestronDevice[]; off: CrestronDevice[] }>();
+
+  for (const device of devices) {
+    const match = device.type === 'Scene' && device.subType !== 'genericIO' ? device.name.match(PAIRED_NAME) : null;
+    if (!match) {
+      continue;
+    }
+    const key = `${device.roomId}:${match[1].toLowerCase()}`;
+    const pair = candidates.get(key) || { on: [], off: [] };
+    pair[match[2].toLowerCase() as 'on' | 'off'].push(device);
+    candidates.set(key, pair);
+  }
+
+  const merged = new Map<number, CrestronDevice>();
+  const hidden = new Set<number>();
+  for (const { on, off } of candidates.values()) {
+    if (on.length !== 1 || off.length !== 1) {
+      continue;
+    }
+    const name = on[0].name.match(PAIRED_NAME)![1];
+    merged.set(on[0].id, { ...on[0], name, pairedScene: { id: off[0].id, status: off[0].status } });
+    hidden.add(off[0].id);
+  }
+
+  return devices
+    .filter(device => !hidden.has(device.id))
+    .map(device => merged.get(device.id) || device);
+}
@@ -0,0 +1,75 @@
+import { SecurityStatus, isArmedOrArming, nextSecurityStatus, requestSecurityMode, securityModeMap } from '../src/securityStates';
+
+describe('securityModeMap', () => {
+  it('should map the HomeKit modes to the default Crestron states', () => {
+    expect(securityModeMap().modes).toEqual({ stay: 'ArmStay', away: 'ArmAway', night: 'ArmInstant', disarmed: 'Disarmed' });
+  });
+
+  it('should leave out modes whose state the panel does not offer', () => {
+    const { modes, unavailable } = securityModeMap({ night: 'ArmStay' }, ['Disarmed', 'ArmAway', 'ArmStay']);
+    expect(modes).toEqual({ stay: 'ArmStay', away: 'ArmAway', night: 'ArmStay', disarmed: 'Disarmed' });
+    expect(unavailable).toEqual([]);
+
+    expect(securityModeMap({}, ['disarmed', 'armaway']).unavailable).toEqual(['stay', 'night']);
+  });
+});
+
+describe('nextSecurityStatus', () => {
+  const { modes } = securityModeMap();
+  const disarmed: SecurityStatus = { current: 'disarmed', target: 'disarmed', alarm: 'none' };
+
+  it('should keep the requested target through the exit delay', () => {
+    let status = requestSecurityMode(disarmed, 'stay');
+    status = nextSecurityStatus(status, 'ExitDelay', modes)!;
+    expect(status).toMatchObject({ current: 'disarmed', target: 'stay', pending: 'stay' });
+
+    status = nextSecurityStatus(status, 'ArmStay', modes)!;
+    expect(status).toEqual({ current: 'stay', target: 'stay', alarm: 'none', armed: 'stay', pending: undefined });
+  });
+
+  it('should show arming away for an exit delay started outside of HomeKit', () => {
+    expect(nextSecurityStatus(disarmed, 'ExitDelay', modes)).toMatchObject({ current: 'disarmed', target: 'away' });
+  });
+
+  it('should stay in the previous arm mode through the entry delay', () => {
+    let status = nextSecurityStatus(disarmed, 'ArmInstant', modes)!;
+    status = nextSecurityStatus(status, 'EntryDelay', modes)!;
+    expect(status).toMatchObject({ current: 'night', target: 'night' });
+
+    status = nextSecurityStatus(status, 'Alarm', modes)!;
+    expect(status).toMatchObject({ current: 'triggered', target: 'night', alarm: 'burglary' });
+
+    status = nextSecurityStatus(requestSecurityMode(status, 'disarmed'), 'Disarmed', modes)!;
+    expect(status).toEqual({ current: 'disarmed', target: 'disarmed', alarm: 'none', armed: undefined, pending: undefined });
+  });
+
+  it('should tell fire alarms apart', () => {
+    expect(nextSecurityStatus(disarmed, 'Fire', modes)).toMatchObject({ current: 'triggered', target: 'disarmed', alarm: 'fire' });
+  });
+
+  it('should resolve modes sharing a Crestron state to the requested one', () => {
+    const shared = securityModeMap({ night: 'ArmStay' }).modes;
+    expect(nextSecurityStatus(disarmed, 'ArmStay', shared)).toMatchObject({ current: 'stay' });
+    expect(nextSecurityStatus(requestSecurityMode(disarmed, 'night'), 'ArmStay', shared)).toMatchObject({ current: 'night' });
+  });
+
+  it('should ignore unknown states', () => {
+    expect(nextSecurityStatus(disarmed, 'Bypassed', modes)).toBeUndefined();
+  });
+});
+
+describe('isArmedOrArming', () => {
+  const { modes } = securityModeMap();
+  const disarmed: SecurityStatus = { current: 'disarmed', target: 'disarmed', alarm: 'none' };
+
+  it('should guard disarming an armed, triggered or arming panel', () => {
+    expect(isArmedOrArming(disarmed)).toBe(false);
+    expect(isArmedOrArming(nextSecurityStatus(disarmed, 'ArmAway', modes)!)).toBe(true);
+    expect(isArmedOrArming(nextSecurityStatus(disarmed, 'Fire', modes)!)).toBe(true);
+  });
+
+  it('should guard cancelling an exit delay', () => {
+    expect(isArmedOrArming(nextSecurityStatus(disarmed, 'ExitDelay', modes)!)).toBe(true);
+    expect(isArmedOrArming(nextSecurityStatus(requestSecurityMode(disarmed, 'stay'), 'ExitDelay', modes)!)).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * The HomeKit security system modes, `disarmed` included
+ */
+export type SecurityMode = 'stay' | 'away' | 'night' | 'disarmed';
+
+export type SecurityAlarm = 'none' | 'burglary' | 'fire';
+
+/**
+ * The Crestron state each HomeKit mode arms the panel with, the `securityModes` section of the config
+ */
+export type SecurityModeMap = Partial<Record<SecurityMode, string>>;
+
+/**
+ * What the Home app shows of a security system: `triggered` while an alarm goes off, and a `target` different from
+ * `current` while the panel is on its way there ("Arming…"). `armed` is the last arm mode the panel was in, it is
+ * shown through an EntryDelay and the alarm that may follow. `pending` is the mode requested from HomeKit until the
+ * panel reaches it.
+ */
+export interface SecurityStatus {
+  current: SecurityMode | 'triggered';
+  target: SecurityMode;
+  alarm: SecurityAlarm;
+  armed?: SecurityMode;
+  pending?: SecurityMode;
+}
+
+export const DEFAULT_SECURITY_MODES: Required<SecurityModeMap> = {
+  stay: 'ArmStay',
+  away: 'ArmAway',
+  night: 'ArmInstant',
+  disarmed: 'Disarmed',
+};
+
+const MODES: SecurityMode[] = ['stay', 'away', 'night', 'disarmed'];
+
+// preferred for an ExitDelay started outside of HomeKit
+const ARM_MODES: SecurityMode[] = ['away', 'stay', 'night'];
+
+/**
+ * Returns the configured mapping on top of the default one, without the modes whose Crestron state isn't one of
+ * the panel's available states (when it reports them). Disarming is always possible.
+ */
+export function securityModeMap(
+  configured: SecurityModeMap = {},
+  availableStates?: string[],
+): { modes: SecurityModeMap; unavailable: SecurityMode[] } {
+  const available = availableStates?.map(state => state.toLowerCase());
+  const modes: SecurityModeMap = {};
+  const unavailable: SecurityMode[] = [];
+  for (const mode of MODES) {
+    const state = configured[mode] || DEFAULT_SECURITY_MODES[mode];
+    if (mode !== 'disarmed' && available?.length && !available.includes(state.toLowerCase())) {
+      unavailable.push(mode);
+      continue;
+    }
+    modes[mode] = state;
+  }
+  return { modes, unavailable };
+}
+
+/**
+ * The status after the panel reported `crestronState`, or undefined for a state that isn't known.
+ * A mode the panel reached clears the pending one; several modes mapped to the same Crestron state resolve to the
+ * pending or previous one.
+ */
+export function nextSecurityStatus(
+  status: SecurityStatus,
+  crestronState: string,
+  modes: SecurityModeMap,
+): SecurityStatus | undefined {
+  const state = crestronState.toLowerCase();
+  const { pending, armed } = status;
+  const fallbackArm = ARM_MODES.find(mode => modes[mode]) || 'away';
+
+  switch (state) {
+    case 'exitdelay': {
+      // arming, the panel is still disarmed until the delay runs out
+      const target = pending && pending !== 'disarmed' ? pending : fallbackArm;
+      return { ...status, current: 'disarmed', target, alarm: 'none' };
+    }
+    case 'entrydelay': {
+      // a sensor tripped, the panel stays armed in the mode it was in until it is disarmed or the alarm goes off
+      const current = armed || fallbackArm;
+      return { ...status, current, target: pending || current, alarm: 'none', armed: current };
+    }
+    case 'alarm':
+      return { ...status, current: 'triggered', target: pending || armed || fallbackArm, alarm: 'burglary' };
+    case 'fire':
+      // a fire alarm goes off disarmed too
+      return { ...status, current: 'triggered', target: pending || armed || 'disarmed', alarm: 'fire' };
+  }
+
+  const matching = MODES.filter(mode => modes[mode]?.toLowerCase() === state);
+  if (matching.length === 0) {
+    return undefined;
+  }
+  const [mode] = [pending, status.target, status.current].filter(candidate => matching.includes(candidate as SecurityMode)) as
+    SecurityMode[];
+  const current = mode || matching[0];
+  const reached = pending === undefined || matching.includes(pending);
+  return {
+    current,
+    target: reached ? current : pending,
+    alarm: 'none',
+    armed: current !== 'disarmed' ? current : undefined,
+    pending: reached ? undefined : pending,
+  };
+}
+
+/**
+ * The status after `target` was requested from HomeKit, the panel is expected to follow
+ */
+export function requestSecurityMode(status: SecurityStatus, target: SecurityMode): SecurityStatus {
+  return { ...status, target, pending: target === status.current ? undefined : target };
+}
+
+/**
+ * Whether disarming from HomeKit would change anything: the panel is armed, triggered, or arming (an exit delay,
+ * where it is still disarmed). The safety policy guards all of these.
+ */
+export function isArmedOrArming(status: SecurityStatus): boolean {
+  return status.current !== 'disarmed' || status.target !== 'disarmed';
+}
@@ -0,0 +1,58 @@
+import { aggregatePosition, buildShadeGroups } from '../src/shadeGroups';
+import { CrestronDevice } from '../src/crestronClient';
+import { Logger } from 'homebridge';
+
+const device = (id: number, roomId: number, roomName: string, type = 'Shade'): CrestronDevice => ({
+  id, name: `${roomName} ${type} ${id}`, type, subType: type, roomId, roomName, status: false, level: 0, position: 0,
+});
+
+describe('buildShadeGroups', () => {
+  const log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  const devices = [
+    device(1, 10, 'Living Room'),
+    device(2, 10, 'Living Room'),
+    device(3, 10, 'Living Room', 'Dimmer'),
+    device(4, 20, 'Kitchen'),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should group the shades of rooms with several shades', () => {
+    const groups = buildShadeGroups(log, { rooms: true, aggregate: 'min' }, devices);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ key: 'room-10', name: 'Living Room All Shades', aggregate: 'min' });
+    expect(groups[0].members.map(member => member.id)).toEqual([1, 2]);
+  });
+
+  it('should build configured groups of exposed shades', () => {
+    const groups = buildShadeGroups(log, {
+      groups: [
+        { name: 'Front', ids: [2, 4, 99], aggregate: 'max' },
+        { name: 'Nothing', ids: [3] },
+      ],
+    }, devices, true);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ key: 'group-Front', aggregate: 'max' });
+    expect(groups[0].members.map(member => member.id)).toEqual([2, 4]);
+    expect(log.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only warn when verbose', () => {
+    buildShadeGroups(log, { aggregate: 'median' as 'mean', groups: [{ name: 'Nothing', ids: [] }] }, devices);
+
+    expect(log.warn).not.toHaveBeenCalled();
+  });
+});
+
+describe('aggregatePosition', () => {
+  it('should aggregate with the mean, min or max', () => {
+    expect(aggregatePosition([0, 50, 100], 'mean')).toBe(50);
+    expect(aggregatePosition([20, 50, 100], 'min')).toBe(20);
+    expect(aggregatePosition([20, 50, 100], 'max')).toBe(100);
+    expect(aggregatePosition([], 'mean')).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice } from './crestronClient';
+
+/**
+ * How the position of a group is derived from the positions of its shades
+ */
+export type ShadeGroupAggregate = 'mean' | 'min' | 'max';
+
+/**
+ * A group from the `shadeGroups` section of the config
+ */
+export interface ShadeGroupConfig {
+  name: string;
+  ids: number[];
+  aggregate?: ShadeGroupAggregate;
+}
+
+export interface ShadeGroupsConfig {
+  // an "All Shades" group for every room with at least two shades
+  rooms?: boolean;
+  aggregate?: ShadeGroupAggregate;
+  groups?: ShadeGroupConfig[];
+}
+
+/**
+ * A group that is exposed as a virtual WindowCovering, `key` identifies its accessory
+ */
+export interface ShadeGroup {
+  key: string;
+  name: string;
+  members: CrestronDevice[];
+  aggregate: ShadeGroupAggregate;
+}
+
+const AGGREGATES: ShadeGroupAggregate[] = ['mean', 'min', 'max'];
+
+type Warn = (message: string, ...parameters: unknown[]) => void;
+
+/**
+ * Returns the groups to expose for the given (already selected) devices: one per room with several shades
+ * when `rooms` is set, and the configured ones. Members that are not exposed by this instance are left out.
+ * Config problems are only logged when `verbose` is set, groups are rebuilt for every device list.
+ */
+export function buildShadeGroups(log: Logger, config: ShadeGroupsConfig = {}, devices: CrestronDevice[], verbose = false): ShadeGroup[] {
+  const warn: Warn = (message, ...parameters) => verbose && log.warn(message, ...parameters);
+  const shades = devices.filter(device => device.type === 'Shade');
+  const defaultAggregate = validAggregate(warn, config.aggregate, 'mean');
+  const groups: ShadeGroup[] = [];
+
+  if (config.rooms) {
+    const rooms = new Map<number, CrestronDevice[]>();
+    for (const shade of shades) {
+      rooms.set(shade.roomId, [...(rooms.get(shade.roomId) || []), shade]);
+    }
+    for (const [roomId, members] of rooms) {
+      if (members.length > 1) {
+        groups.push({ key: `room-${roomId}`, name: `${members[0].roomName} All Shades`, members, aggregate: defaultAggregate });
+      }
+    }
+  }
+
+  for (const group of config.groups || []) {
+    const ids = (group.ids || []).map(Number);
+    const members = shades.filter(shade => ids.includes(shade.id));
+    if (!group.name || members.length === 0) {
+      warn('Ignoring shade group without a name or exposed shades:', group.name || group);
+      continue;
+    }
+    const aggregate = validAggregate(warn, group.aggregate, defaultAggregate);
+    groups.push({ key: `group-${group.name}`, name: group.name, members, aggregate });
+  }
+
+  return groups;
+}
+
+/**
+ * Position of a group from the positions of its shades
+ */
+export function aggregatePosition(positions: number[], aggregate: ShadeGroupAggregate): number {
+  if (positions.length === 0) {
+    return 0;
+  }
+  switch (aggregate) {
+    case 'min':
+      return Math.min(...positions);
+    case 'max':
+      return Math.max(...positions);
+    default:
+      return Math.round(positions.reduce((sum, position) => sum + position, 0) / positions.length);
+  }
+}
+
+function validAggregate(warn: Warn, aggregate: string | undefined, fallback: ShadeGroupAggregate): ShadeGroupAggregate {
+  if (aggregate === undefined) {
+    return fallback;
+  }
+  if (!AGGREGATES.includes(aggregate as ShadeGroupAggregate)) {
+    warn(`Unknown shade group aggregate "${aggregate}", use one of:`, AGGREGATES.join(', '));
+    return fallback;
+  }
+  return aggregate as ShadeGroupAggregate;
+}
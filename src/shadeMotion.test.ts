@@ -0,0 +1,70 @@
+import { ShadeMotionState, ShadeMotionTracker } from '../src/shadeMotion';
+import { Logger } from 'homebridge';
+
+describe('ShadeMotionTracker', () => {
+  const log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  let readPosition: jest.Mock;
+  let onChange: jest.Mock;
+  let onTravelTimeLearned: jest.Mock;
+  let tracker: ShadeMotionTracker;
+
+  const lastState = (): ShadeMotionState => onChange.mock.calls[onChange.mock.calls.length - 1][0];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    readPosition = jest.fn().mockReturnValue(new Promise(() => undefined));
+    onChange = jest.fn();
+    onTravelTimeLearned = jest.fn();
+    // 20 seconds from closed to open
+    tracker = new ShadeMotionTracker(log, 'Shade', 0, 20, { tolerance: 2, timeout: 10 }, { readPosition, onChange, onTravelTimeLearned });
+  });
+
+  afterEach(() => {
+    tracker.dispose();
+    jest.useRealTimers();
+  });
+
+  it('should interpolate the position between reads', async () => {
+    tracker.moveTo(50);
+    expect(lastState()).toEqual({ current: 0, target: 50, motion: 'opening' });
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(lastState()).toEqual({ current: 25, target: 50, motion: 'opening' });
+  });
+
+  it('should arrive within the tolerance and learn the travel time', async () => {
+    tracker.moveTo(50);
+    await jest.advanceTimersByTimeAsync(15000);
+
+    tracker.observe(49);
+
+    expect(lastState()).toEqual({ current: 50, target: 50, motion: 'stopped' });
+    // 15s for half the travel is 30s for a full one, averaged with the previous 20s
+    expect(onTravelTimeLearned).toHaveBeenCalledWith(25);
+  });
+
+  it('should hold the shade at its estimated position', async () => {
+    tracker.moveTo(100);
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(tracker.hold()).toBe(20);
+    expect(lastState()).toEqual({ current: 20, target: 20, motion: 'stopped' });
+  });
+
+  it('should give up when the shade does not arrive in time', async () => {
+    tracker.moveTo(100);
+    tracker.observe(10);
+
+    await jest.advanceTimersByTimeAsync(31000);
+
+    expect(lastState()).toEqual({ current: 10, target: 10, motion: 'stopped' });
+    expect(log.warn).toHaveBeenCalled();
+  });
+
+  it('should follow positions changed outside of HomeKit', () => {
+    tracker.observe(70);
+
+    expect(lastState()).toEqual({ current: 70, target: 70, motion: 'stopped' });
+  });
+});
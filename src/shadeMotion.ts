@@ -0,0 +1,197 @@
+import { Logger } from 'homebridge';
+
+export type ShadeMotion = 'stopped' | 'opening' | 'closing';
+
+export interface ShadeMotionState {
+  current: number;
+  target: number;
+  motion: ShadeMotion;
+}
+
+/**
+ * The `shadeMotion` section of the config
+ */
+export interface ShadeMotionConfig {
+  tolerance?: number; // percent, a shade this close to its target has arrived
+  timeout?: number; // seconds a movement may take longer than expected before it is given up
+  travelTime?: number; // seconds for a full close to open travel, until one is learned
+}
+
+export interface ShadeMotionCallbacks {
+  // fetch the actual position (percent) from the processor
+  readPosition: () => Promise<number>;
+  onChange: (state: ShadeMotionState) => void;
+  // a new full travel time (seconds) was learned from a finished movement
+  onTravelTimeLearned?: (travelTime: number) => void;
+}
+
+const TICK_MILLIS = 1000;
+// the actual position is read every few ticks, in between it is interpolated from the travel time
+const READ_EVERY_TICKS = 3;
+// a moving shade whose position doesn't change for this many reads was stopped by something else, e.g. a keypad
+const STALLED_READS = 3;
+// movements shorter than this (percent) are too noisy to learn the travel time from
+const MIN_LEARN_DISTANCE = 20;
+
+/**
+ * Tracks the movement of one shade: interpolates its position between reads, tells when it arrived
+ * (within the tolerance), stalled or timed out, and learns its travel time from finished movements.
+ */
+export class ShadeMotionTracker {
+  private readonly tolerance: number;
+  private readonly timeout: number;
+
+  private state: ShadeMotionState;
+  private startedAt = 0;
+  private startPosition = 0;
+  private observed = { position: 0, at: 0, unchangedReads: 0 };
+  private timer?: NodeJS.Timeout;
+  private ticks = 0;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly name: string,
+    position: number,
+    private travelTime: number,
+    config: ShadeMotionConfig,
+    private readonly callbacks: ShadeMotionCallbacks,
+  ) {
+    this.tolerance = config.tolerance ?? 2;
+    this.timeout = (config.timeout ?? 60) * 1000;
+    this.state = { current: position, target: position, motion: 'stopped' };
+  }
+
+  public get current(): ShadeMotionState {
+    return { ...this.state };
+  }
+
+  public moveTo(target: number) {
+    if (Math.abs(target - this.state.current) <= this.tolerance) {
+      this.finish(target);
+      return;
+    }
+
+    this.startedAt = Date.now();
+    this.startPosition = this.state.current;
+    this.observed = { position: this.state.current, at: this.startedAt, unchangedReads: 0 };
+    this.state = { current: this.state.current, target, motion: target > this.state.current ? 'opening' : 'closing' };
+    this.log.debug(`Shade ${this.name} moving to ${target}, expected to take ${Math.round(this.expectedDuration() / 1000)}s`);
+
+    if (!this.timer) {
+      this.ticks = 0;
+      this.timer = setInterval(this.tick.bind(this), TICK_MILLIS);
+    }
+    this.callbacks.onChange(this.current);
+  }
+
+  /**
+   * Freeze the shade at its current (estimated) position, returns it so it can be sent to the processor
+   */
+  public hold(): number {
+    this.log.debug(`Shade ${this.name} held at ${this.state.current}`);
+    this.finish(this.state.current);
+    return this.state.current;
+  }
+
+  /**
+   * An actual position of the shade, from a poll or a read
+   */
+  public observe(position: number) {
+    if (this.state.motion === 'stopped') {
+      if (position !== this.state.current || position !== this.state.target) {
+        this.finish(position);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    this.observed = {
+      position,
+      at: now,
+      unchangedReads: position === this.observed.position ? this.observed.unchangedReads + 1 : 0,
+    };
+
+    if (Math.abs(position - this.state.target) <= this.tolerance) {
+      this.learnTravelTime(now);
+      this.log.debug(`Shade ${this.name} arrived at ${position} (target ${this.state.target})`);
+      this.finish(this.state.target);
+      return;
+    }
+
+    if (this.observed.unchangedReads >= STALLED_READS && now - this.startedAt > READ_EVERY_TICKS * TICK_MILLIS * STALLED_READS) {
+      this.log.debug(`Shade ${this.name} stopped at ${position} before reaching ${this.state.target}`);
+      this.finish(position);
+      return;
+    }
+
+    this.update(position);
+  }
+
+  public dispose() {
+    this.stopTimer();
+  }
+
+  private tick() {
+    if (this.state.motion === 'stopped') {
+      this.stopTimer();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - this.startedAt > this.expectedDuration() + this.timeout) {
+      this.log.warn(`Shade ${this.name} didn't reach ${this.state.target} in time, it stays at ${this.observed.position}`);
+      this.finish(this.observed.position);
+      return;
+    }
+
+    if (++this.ticks % READ_EVERY_TICKS === 0) {
+      this.callbacks.readPosition()
+        .then(position => this.observe(position))
+        .catch(error => this.log.debug(`Error reading position of shade ${this.name}:`, error));
+    }
+
+    // interpolate from the last actual position, never past the target
+    const travelled = (now - this.observed.at) / (this.travelTime * 1000) * 100;
+    const estimate = this.state.motion === 'opening'
+      ? Math.min(this.observed.position + travelled, this.state.target)
+      : Math.max(this.observed.position - travelled, this.state.target);
+    this.update(Math.round(estimate));
+  }
+
+  private update(current: number) {
+    if (current !== this.state.current) {
+      this.state = { ...this.state, current };
+      this.callbacks.onChange(this.current);
+    }
+  }
+
+  private finish(position: number) {
+    this.stopTimer();
+    this.state = { current: position, target: position, motion: 'stopped' };
+    this.callbacks.onChange(this.current);
+  }
+
+  private learnTravelTime(now: number) {
+    const distance = Math.abs(this.state.target - this.startPosition);
+    if (distance < MIN_LEARN_DISTANCE) {
+      return;
+    }
+
+    // reads come every few seconds, average with the previous value to smooth that out
+    const measured = (now - this.startedAt) / 1000 / (distance / 100);
+    this.travelTime = Math.round((this.travelTime + measured) / 2 * 10) / 10;
+    this.log.debug(`Shade ${this.name} full travel time is now ${this.travelTime}s`);
+    this.callbacks.onTravelTimeLearned?.(this.travelTime);
+  }
+
+  private expectedDuration(): number {
+    return Math.abs(this.state.target - this.startPosition) / 100 * this.travelTime * 1000;
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  applyDeadband,
+  celsiusToDeciFahrenheit,
+  deciFahrenheitToCelsius,
+  deciFahrenheitToFahrenheit,
+  fahrenheitToDeciFahrenheit,
+  fromCelsius,
+  parseTemperatureUnits,
+  toCelsius,
+} from '../src/temperature';
+
+describe('DeciFahrenheit conversions', () => {
+  it('should convert to and from Celsius', () => {
+    expect(deciFahrenheitToCelsius(720)).toBe(22.2);
+    expect(deciFahrenheitToCelsius(320)).toBe(0);
+    expect(deciFahrenheitToCelsius(-400)).toBe(-40);
+    expect(celsiusToDeciFahrenheit(22)).toBe(716);
+    expect(celsiusToDeciFahrenheit(0)).toBe(320);
+    expect(celsiusToDeciFahrenheit(21.5)).toBe(707);
+  });
+
+  it('should convert to and from Fahrenheit', () => {
+    expect(deciFahrenheitToFahrenheit(725)).toBe(72.5);
+    expect(fahrenheitToDeciFahrenheit(72.5)).toBe(725);
+    expect(fahrenheitToDeciFahrenheit(68.04)).toBe(680);
+  });
+
+  it('should round trip the HomeKit setpoint steps', () => {
+    for (let celsius = 10; celsius <= 32; celsius += 0.5) {
+      expect(deciFahrenheitToCelsius(celsiusToDeciFahrenheit(celsius))).toBeCloseTo(celsius, 1);
+    }
+  });
+});
+
+describe('Crestron temperature units', () => {
+  it('should parse every unit family', () => {
+    expect(parseTemperatureUnits('DeciFahrenheit')).toEqual({ scale: 'fahrenheit', perDegree: 10 });
+    expect(parseTemperatureUnits('FahrenheitWholeDegrees')).toEqual({ scale: 'fahrenheit', perDegree: 1 });
+    expect(parseTemperatureUnits('DeciCelsius')).toEqual({ scale: 'celsius', perDegree: 10 });
+    expect(parseTemperatureUnits('CelsiusWholeDegrees')).toEqual({ scale: 'celsius', perDegree: 1 });
+    expect(parseTemperatureUnits(undefined)).toEqual({ scale: 'fahrenheit', perDegree: 10 });
+  });
+
+  it('should convert in the unit of the thermostat', () => {
+    expect(toCelsius(72, parseTemperatureUnits('FahrenheitWholeDegrees'))).toBe(22.2);
+    expect(fromCelsius(22, parseTemperatureUnits('FahrenheitWholeDegrees'))).toBe(72);
+    expect(toCelsius(215, parseTemperatureUnits('DeciCelsius'))).toBe(21.5);
+    expect(fromCelsius(21.5, parseTemperatureUnits('DeciCelsius'))).toBe(215);
+    expect(toCelsius(21, parseTemperatureUnits('CelsiusWholeDegrees'))).toBe(21);
+    expect(fromCelsius(21.4, parseTemperatureUnits('CelsiusWholeDegrees'))).toBe(21);
+  });
+});
+
+describe('applyDeadband', () => {
+  const range = { min: 10, max: 32 };
+
+  it('should keep setpoints that are far enough apart', () => {
+    expect(applyDeadband({ heat: 20, cool: 24 }, 'heat', 1.5, range)).toEqual({ heat: 20, cool: 24 });
+  });
+
+  it('should move the setpoint that was not changed', () => {
+    expect(applyDeadband({ heat: 23.5, cool: 24 }, 'heat', 1.5, range)).toEqual({ heat: 23.5, cool: 25 });
+    expect(applyDeadband({ heat: 20, cool: 19 }, 'cool', 1.5, range)).toEqual({ heat: 17.5, cool: 19 });
+  });
+
+  it('should give way at the end of the range', () => {
+    expect(applyDeadband({ heat: 32, cool: 32 }, 'heat', 1.5, range)).toEqual({ heat: 30.5, cool: 32 });
+    expect(applyDeadband({ heat: 10, cool: 10 }, 'cool', 1.5, range)).toEqual({ heat: 10, cool: 11.5 });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Temperature conversions between Crestron and HomeKit. Crestron thermostats report and take temperatures in
+ * the unit of their `temperatureUnits` - DeciFahrenheit (720 = 72.0°F) by default, FahrenheitWholeDegrees,
+ * DeciCelsius, CelsiusWholeDegrees... HomeKit always works in Celsius - the display unit is only a hint for the Home app.
+ */
+
+/**
+ * A Crestron temperature unit: the degrees it counts in, and how many raw values make one degree
+ */
+export interface TemperatureUnit {
+  scale: 'fahrenheit' | 'celsius';
+  perDegree: number;
+}
+
+const DECI_FAHRENHEIT: TemperatureUnit = { scale: 'fahrenheit', perDegree: 10 };
+
+/**
+ * Heat and cool setpoints in Celsius
+ */
+export interface Thresholds {
+  heat: number;
+  cool: number;
+}
+
+export function deciFahrenheitToFahrenheit(deciFahrenheit: number): number {
+  return Math.round(deciFahrenheit) / 10;
+}
+
+export function fahrenheitToDeciFahrenheit(fahrenheit: number): number {
+  return Math.round(fahrenheit * 10);
+}
+
+/**
+ * Rounded to 0.1°C, the resolution of HomeKit temperatures
+ */
+export function deciFahrenheitToCelsius(deciFahrenheit: number): number {
+  return toCelsius(deciFahrenheit, DECI_FAHRENHEIT);
+}
+
+export function celsiusToDeciFahrenheit(celsius: number): number {
+  return fromCelsius(celsius, DECI_FAHRENHEIT);
+}
+
+/**
+ * Keep the heat and cool setpoints at least `deadband` apart, moving the one that wasn't changed.
+ * When that would push it out of the allowed range, the changed one gives way instead.
+ */
+export function applyDeadband(
+  thresholds: Thresholds,
+  changed: keyof Thresholds,
+  deadband: number,
+  range: { min: number; max: number },
+): Thresholds {
+  let { heat, cool } = thresholds;
+  if (cool - heat >= deadband) {
+    return { heat, cool };
+  }
+
+  if (changed === 'heat') {
+    cool = Math.min(heat + deadband, range.max);
+    heat = Math.min(heat, cool - deadband);
+  } else {
+    heat = Math.max(cool - deadband, range.min);
+    cool = Math.max(cool, heat + deadband);
+  }
+  return { heat: Math.round(heat * 10) / 10, cool: Math.round(cool * 10) / 10 };
+}
+
+/**
+ * Parse a Crestron `temperatureUnits` value, unknown or missing units are DeciFahrenheit
+ */
+export function parseTemperatureUnits(units?: string): TemperatureUnit {
+  const name = (units || '').toLowerCase();
+  const scale = name.includes('celsius') ? 'celsius' : name.includes('fahrenheit') ? 'fahrenheit' : undefined;
+  if (!scale) {
+    return DECI_FAHRENHEIT;
+  }
+
+  return { scale, perDegree: name.startsWith('deci') ? 10 : 1 };
+}
+
+/**
+ * Crestron value in the given unit to Celsius, rounded to 0.1°C
+ */
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  const degrees = value / unit.perDegree;
+  const celsius = unit.scale === 'celsius' ? degrees : (degrees - 32) * 5 / 9;
+  return Math.round(celsius * 10) / 10;
+}
+
+/**
+ * Celsius to a Crestron value in the given unit, rounded to the unit's resolution
+ */
+export function fromCelsius(celsius: number, unit: TemperatureUnit): number {
+  const degrees = unit.scale === 'celsius' ? celsius : celsius * 9 / 5 + 32;
+  return Math.round(degrees * unit.perDegree);
+}
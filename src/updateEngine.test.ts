@@ -0,0 +1,85 @@
+import { DeviceEventSource, DeviceSink, DeviceUpdateEngine } from '../src/updateEngine';
+import { CrestronDevice } from '../src/crestronClient';
+import { Logger } from 'homebridge';
+
+const device = (id: number, level: number): CrestronDevice => ({
+  id, name: `Light ${id}`, type: 'Dimmer', subType: 'Dimmer', roomId: 1, roomName: 'Living Room',
+  status: level > 0, level, position: 0,
+});
+
+describe('DeviceUpdateEngine', () => {
+  let log: Logger;
+  let onChange: jest.Mock;
+  let engine: DeviceUpdateEngine;
+
+  beforeEach(() => {
+    log = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+    onChange = jest.fn();
+    engine = new DeviceUpdateEngine(log, onChange);
+  });
+
+  it('should notify only about devices that changed', () => {
+    engine.seed([device(1, 0), device(2, 0)]);
+
+    engine.ingest([device(1, 0), device(2, 65535)]);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(device(2, 65535));
+  });
+
+  it('should notify about new devices and not repeat unchanged states', () => {
+    engine.ingest([device(3, 100)]);
+    engine.ingest([device(3, 100)]);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver the next state after a device is invalidated', () => {
+    engine.seed([device(1, 0)]);
+    engine.invalidate(1);
+
+    engine.ingest([device(1, 0)]);
+
+    expect(onChange).toHaveBeenCalledWith(device(1, 0));
+  });
+
+  it('should deliver the last known states again on replay', () => {
+    engine.seed([device(1, 0)]);
+    engine.ingest([device(2, 100)]);
+    onChange.mockClear();
+
+    engine.replay();
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenCalledWith(device(1, 0));
+    expect(onChange).toHaveBeenCalledWith(device(2, 100));
+  });
+
+  it('should keep going when a handler throws', () => {
+    onChange.mockImplementationOnce(() => {
+      throw new Error('boom');
+    });
+
+    engine.ingest([device(1, 0), device(2, 0)]);
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(log.error).toHaveBeenCalled();
+  });
+
+  it('should feed devices pushed by an event source', () => {
+    let push: DeviceSink | undefined;
+    const source: DeviceEventSource = {
+      name: 'test',
+      start: sink => push = sink,
+      stop: jest.fn(),
+    };
+    engine.addSource(source);
+
+    engine.start();
+    push!([device(5, 200)]);
+    engine.stop();
+
+    expect(onChange).toHaveBeenCalledWith(device(5, 200));
+    expect(source.stop).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+import { Logger } from 'homebridge';
+import { CrestronDevice } from './crestronClient';
+
+/**
+ * Receives device states from an event source. A source may push the full device list (complete)
+ * or only the devices it knows about.
+ */
+export type DeviceSink = (devices: CrestronDevice[], complete?: boolean) => void;
+
+/**
+ * Anything that can feed Crestron device states into the update engine - polling today,
+ * a push transport (e.g. websocket or CIP) later on.
+ */
+export interface DeviceEventSource {
+  readonly name: string;
+  start(sink: DeviceSink): void;
+  stop(): void;
+}
+
+/**
+ * Called by the engine for every device whose state differs from the last seen snapshot
+ */
+export type DeviceChangeHandler = (device: CrestronDevice) => void;
+
+/**
+ * Called by the engine with every complete device list, used to find devices that disappeared
+ */
+export type DeviceSnapshotHandler = (devices: CrestronDevice[]) => void;
+
+/**
+ * Change-driven update engine.
+ * Keeps the last snapshot of every device (by Crestron id), diffs each incoming state against it
+ * and notifies the platform only about devices that actually changed.
+ */
+export class DeviceUpdateEngine {
+  private readonly snapshots = new Map<number, string>();
+  private readonly sources: DeviceEventSource[] = [];
+
+  constructor(
+    private readonly log: Logger,
+    private readonly onChange: DeviceChangeHandler,
+    private readonly onSnapshot?: DeviceSnapshotHandler,
+  ) {}
+
+  public addSource(source: DeviceEventSource) {
+    this.sources.push(source);
+  }
+
+  public start() {
+    for (const source of this.sources) {
+      this.log.debug('Starting device event source:', source.name);
+      source.start(this.ingest.bind(this));
+    }
+  }
+
+  public stop() {
+    for (const source of this.sources) {
+      source.stop();
+    }
+  }
+
+  /**
+   * Record the given states as known without notifying anyone, used right after discovery
+   */
+  public seed(devices: CrestronDevice[]) {
+    for (const device of devices) {
+      this.snapshots.set(device.id, JSON.stringify(device));
+    }
+  }
+
+  /**
+   * Forget the snapshot of a device, so the next state received for it is always delivered
+   */
+  public invalidate(id: number) {
+    this.snapshots.delete(id);
+  }
+
+  /**
+   * Deliver the last known state of every device again, e.g. to refresh accessories after a connection outage
+   */
+  public replay() {
+    for (const snapshot of this.snapshots.values()) {
+      const device: CrestronDevice = JSON.parse(snapshot);
+      try {
+        this.onChange(device);
+      } catch (error) {
+        this.log.error('Error applying state update for device:', device.name, error);
+      }
+    }
+  }
+
+  public ingest(devices: CrestronDevice[], complete = false) {
+    let changed = 0;
+
+    for (const device of devices) {
+      const snapshot = JSON.stringify(device);
+      const previous = this.snapshots.get(device.id);
+
+      if (previous === snapshot) {
+        continue;
+      }
+
+      this.snapshots.set(device.id, snapshot);
+      changed++;
+
+      try {
+        this.onChange(device);
+      } catch (error) {
+        this.log.error('Error applying state update for device:', device.name, error);
+      }
+    }
+
+    this.log.debug(`Received ${devices.length} device states, ${changed} changed`);
+
+    if (complete && this.onSnapshot) {
+      this.onSnapshot(devices);
+    }
+  }
+}
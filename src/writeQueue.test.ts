@@ -0,0 +1,76 @@
+import { WriteQueue } from '../src/writeQueue';
+
+type Write = { id: number; level?: number; time?: number };
+
+describe('WriteQueue', () => {
+  let send: jest.Mock;
+  let queue: WriteQueue<Write>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    send = jest.fn().mockResolvedValue(undefined);
+    queue = new WriteQueue<Write>(50, send);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send the writes of a window as one batch', async () => {
+    const writes = [queue.enqueue({ id: 1, level: 10 }), queue.enqueue({ id: 2, level: 20 })];
+
+    await jest.advanceTimersByTimeAsync(50);
+    await Promise.all(writes);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith([{ id: 1, level: 10 }, { id: 2, level: 20 }]);
+  });
+
+  it('should keep only the latest value of a device', async () => {
+    const writes = [queue.enqueue({ id: 1, level: 10 }), queue.enqueue({ id: 1, level: 30 })];
+
+    await jest.advanceTimersByTimeAsync(50);
+    await Promise.all(writes);
+
+    expect(send).toHaveBeenCalledWith([{ id: 1, level: 30 }]);
+  });
+
+  it('should merge the fields of writes to the same device', async () => {
+    const writes = [queue.enqueue({ id: 1, level: 10, time: 500 }), queue.enqueue({ id: 1, level: 30 })];
+
+    await jest.advanceTimersByTimeAsync(50);
+    await Promise.all(writes);
+
+    expect(send).toHaveBeenCalledWith([{ id: 1, level: 30, time: 500 }]);
+  });
+
+  it('should reject every write of a failed batch', async () => {
+    send.mockRejectedValueOnce(new Error('offline'));
+    const first = queue.enqueue({ id: 1, level: 10 });
+    const second = queue.enqueue({ id: 2, level: 20 });
+    const results = Promise.allSettled([first, second]);
+
+    await jest.advanceTimersByTimeAsync(50);
+
+    expect((await results).map(result => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should hold writes back while a batch is in flight', async () => {
+    let finishFirstBatch!: () => void;
+    send.mockImplementationOnce(() => new Promise<void>(resolve => finishFirstBatch = resolve));
+
+    queue.enqueue({ id: 1, level: 10 });
+    await jest.advanceTimersByTimeAsync(50);
+    queue.enqueue({ id: 1, level: 20 });
+    queue.enqueue({ id: 1, level: 30 });
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(send).toHaveBeenCalledTimes(1);
+
+    finishFirstBatch();
+    await jest.advanceTimersByTimeAsync(50);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenLastCalledWith([{ id: 1, level: 30 }]);
+  });
+});
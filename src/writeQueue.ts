@@ -0,0 +1,67 @@
+type PendingWrite<T> = {
+  item: T;
+  callbacks: Array<{ resolve: () => void; reject: (error: unknown) => void }>;
+};
+
+/**
+ * Collects writes to one Crestron endpoint and sends them as a single batched request.
+ * Writes are gathered for a short window (and while the previous batch is still in flight),
+ * several writes to the same device id are merged, keeping the latest value of each field.
+ * Every write gets a promise that settles with the result of the request that carried it.
+ */
+export class WriteQueue<T extends { id: number }> {
+  private readonly pending = new Map<number, PendingWrite<T>>();
+  private timer?: NodeJS.Timeout;
+  private inFlight = false;
+
+  constructor(
+    private readonly window: number,
+    private readonly send: (items: T[]) => Promise<void>,
+  ) {}
+
+  public enqueue(item: T): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const write = this.pending.get(item.id);
+      if (write) {
+        // the device's previous values were never sent, merge them and settle both writes with the merged one
+        write.item = { ...write.item, ...item };
+        write.callbacks.push({ resolve, reject });
+      } else {
+        this.pending.set(item.id, { item, callbacks: [{ resolve, reject }] });
+      }
+      this.schedule();
+    });
+  }
+
+  private schedule() {
+    if (this.timer || this.inFlight) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, this.window);
+  }
+
+  private async flush() {
+    const writes = [...this.pending.values()];
+    this.pending.clear();
+    if (writes.length === 0) {
+      return;
+    }
+
+    const callbacks = writes.flatMap(write => write.callbacks);
+    this.inFlight = true;
+    try {
+      await this.send(writes.map(write => write.item));
+      callbacks.forEach(callback => callback.resolve());
+    } catch (error) {
+      callbacks.forEach(callback => callback.reject(error));
+    } finally {
+      this.inFlight = false;
+      if (this.pending.size > 0) {
+        this.schedule();
+      }
+    }
+  }
+}